@@ -8,9 +8,14 @@ import ShoppingList from './components/ShoppingList';
 import UserProfile from './components/UserProfile';
 import SavedRepairs from './components/SavedRepairs';
 import PartsManager from './components/PartsManager';
+import ApplianceRegistry from './components/ApplianceRegistry';
 import Login from './components/Login';
 import AuthCallback from './components/AuthCallback';
 import { Toaster } from 'sonner'; // Integrated Sonner
+import { subscribeToAiStatus } from './services/retryPolicy';
+import { subscribeToScheduler } from './services/requestScheduler';
+import { showAiStatusToast, showSchedulerToast } from './services/aiStatusToasts';
+import { getAiProvider } from './services/aiProvider';
 
 function App() {
   const { user, loading } = useAuth();
@@ -19,6 +24,13 @@ function App() {
 
   useEffect(() => {
     // Supabase handles auth state changes automatically
+    // AI retry/fallback and budget notifications are driven from one place
+    const unsubscribeStatus = subscribeToAiStatus(showAiStatusToast);
+    const unsubscribeScheduler = subscribeToScheduler(showSchedulerToast);
+    return () => {
+      unsubscribeStatus();
+      unsubscribeScheduler();
+    };
   }, []);
 
   const handleAuthSuccess = () => {
@@ -26,7 +38,7 @@ function App() {
   };
 
   const renderView = () => {
-    const protectedRoutes = ['scanner', 'shopping', 'checklist', 'profile', 'repairs', 'parts'];
+    const protectedRoutes = ['scanner', 'shopping', 'checklist', 'profile', 'repairs', 'parts', 'appliances'];
 
     if (protectedRoutes.includes(currentView) && !user) {
       return <Home onViewChange={setCurrentView} />;
@@ -42,9 +54,11 @@ function App() {
       case 'shopping':
         return <ShoppingList />;
       case 'repairs':
-        return <SavedRepairs />;
+        return <SavedRepairs onViewChange={setCurrentView} />;
       case 'parts':
         return <PartsManager />;
+      case 'appliances':
+        return <ApplianceRegistry />;
       case 'profile':
         return <UserProfile />;
       default:
@@ -103,6 +117,13 @@ function App() {
       
       <main className="ml-0 md:ml-64 p-4 md:p-8 pt-20 md:pt-8 pb-4 md:pb-8 transition-all duration-300">
         <div className="max-w-4xl mx-auto">
+          {/* Scripted answers must never pass for real diagnoses */}
+          {getAiProvider().id === 'offline' && (
+            <div className="mb-4 rounded-lg border border-yellow-600/50 bg-yellow-900/30 px-4 py-2 text-sm text-yellow-200">
+              <span className="font-semibold">Demo mode:</span> answers come from scripted examples, not a real diagnosis
+              of your photos or description.
+            </div>
+          )}
           {renderView()}
         </div>
       </main>
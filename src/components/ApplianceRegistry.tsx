@@ -0,0 +1,527 @@
+import { useState, useEffect, useRef } from 'react';
+import { Plus, Edit2, Trash2, Camera, X, Loader2, Refrigerator, Wrench, CheckSquare, Package, Calendar, MapPin, Link2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  APPLIANCE_TYPES,
+  APPLIANCE_TYPE_LABELS,
+  addAppliance,
+  applianceAgeYears,
+  deleteAppliance,
+  getAppliances,
+  getApplianceHistory,
+  getLinkableItems,
+  linkToAppliance,
+  updateAppliance,
+  type Appliance,
+  type ApplianceHistory,
+  type ApplianceInput,
+  type LinkableItem,
+  type LinkableKind
+} from '../services/applianceService';
+import { compressImage } from '../services/imageMemoryService';
+import { getMediaUrl } from '../services/mediaService';
+import { getWarranties, warrantyStatus, type Warranty } from '../services/warrantyService';
+import WarrantyPanel from './WarrantyPanel';
+import ManualLibrary from './ManualLibrary';
+
+const EMPTY_FORM: ApplianceInput = {
+  type: 'water-heater',
+  name: '',
+  brand: '',
+  model: '',
+  serial: '',
+  manufacture_date: '',
+  install_date: '',
+  location: ''
+};
+
+const LINK_SECTIONS: Array<{ kind: LinkableKind; label: string; icon: typeof Wrench }> = [
+  { kind: 'repair', label: 'Repairs', icon: Wrench },
+  { kind: 'task', label: 'Maintenance tasks', icon: CheckSquare },
+  { kind: 'part', label: 'Parts', icon: Package }
+];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Home equipment registry: the water heater, furnace, dishwasher... with their
+ * model/serial details, photos, and every repair, maintenance task and part linked to them
+ */
+export default function ApplianceRegistry() {
+  const { user } = useAuth();
+  const [appliances, setAppliances] = useState<Appliance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ApplianceHistory | null>(null);
+  const [linkable, setLinkable] = useState<Record<LinkableKind, LinkableItem[]>>({ repair: [], task: [], part: [] });
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [warranties, setWarranties] = useState<Warranty[]>([]);
+
+  // Add/edit form; editing is null when adding
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Appliance | null>(null);
+  const [form, setForm] = useState<ApplianceInput>(EMPTY_FORM);
+  const [newPhotos, setNewPhotos] = useState<string[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Photo paths already sent for signing, so failures are not retried in a loop
+  const requestedPhotosRef = useRef(new Set<string>());
+
+  const selected = appliances.find(appliance => appliance.id === selectedId) || null;
+
+  useEffect(() => {
+    const loadAppliances = async () => {
+      const [userAppliances, userWarranties] = await Promise.all([getAppliances(), getWarranties()]);
+      setAppliances(userAppliances);
+      setWarranties(userWarranties);
+      setLoading(false);
+    };
+
+    if (user) {
+      loadAppliances();
+    } else {
+      setLoading(false);
+    }
+
+    // Label scans can add equipment from the Issue Help view
+    window.addEventListener('applianceSaved', loadAppliances);
+    return () => window.removeEventListener('applianceSaved', loadAppliances);
+  }, [user]);
+
+  // History and link options for the expanded appliance
+  useEffect(() => {
+    let cancelled = false;
+    if (!selected) {
+      setHistory(null);
+      return;
+    }
+
+    Promise.all([getApplianceHistory(selected), getLinkableItems()]).then(([applianceHistory, items]) => {
+      if (cancelled) return;
+      setHistory(applianceHistory);
+      setLinkable(items);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  // Storage is private, so photos get short-lived signed URLs when shown
+  useEffect(() => {
+    let cancelled = false;
+    const paths = [...(selected?.photos || []), ...(editing?.photos || [])]
+      .filter(path => !requestedPhotosRef.current.has(path));
+    if (paths.length === 0) return;
+    paths.forEach(path => requestedPhotosRef.current.add(path));
+
+    Promise.all(paths.map(path => getMediaUrl(path))).then(urls => {
+      if (cancelled) return;
+      setPhotoUrls(prev => {
+        const next = { ...prev };
+        paths.forEach((path, idx) => {
+          if (urls[idx]) next[path] = urls[idx]!;
+        });
+        return next;
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, editing]);
+
+  const openForm = (appliance: Appliance | null) => {
+    setEditing(appliance);
+    setForm(appliance ? {
+      type: appliance.type,
+      name: appliance.name,
+      brand: appliance.brand || '',
+      model: appliance.model || '',
+      serial: appliance.serial || '',
+      manufacture_date: appliance.manufacture_date || '',
+      install_date: appliance.install_date || '',
+      location: appliance.location || ''
+    } : EMPTY_FORM);
+    setNewPhotos([]);
+    setRemovedPhotos([]);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    try {
+      const photos = await Promise.all(files.map(file => new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read photo'));
+        reader.readAsDataURL(file);
+      }).then(dataUrl => compressImage(dataUrl, 1024, 0.7))));
+      setNewPhotos(prev => [...prev, ...photos]);
+    } catch (error) {
+      console.error('Error reading appliance photo:', error);
+      alert('Could not read that photo. Please try another one.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      alert('Give this equipment a name, e.g. "Basement water heater"');
+      return;
+    }
+
+    setSaving(true);
+    const input = { ...form, name: form.name.trim() };
+    const saved = editing
+      ? await updateAppliance(editing, input, newPhotos, removedPhotos)
+      : await addAppliance(input, newPhotos);
+    setSaving(false);
+
+    if (saved) {
+      setAppliances(prev => [...prev.filter(appliance => appliance.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(saved.id);
+      closeForm();
+    }
+  };
+
+  const handleDelete = async (appliance: Appliance) => {
+    if (!confirm(`Delete ${appliance.name}? Linked repairs, tasks and parts are kept.`)) return;
+
+    if (await deleteAppliance(appliance)) {
+      setAppliances(prev => prev.filter(item => item.id !== appliance.id));
+      if (selectedId === appliance.id) setSelectedId(null);
+    }
+  };
+
+  const handleLink = async (kind: LinkableKind, itemId: string, applianceId: string | null) => {
+    if (!selected || !(await linkToAppliance(kind, itemId, applianceId))) return;
+    const [applianceHistory, items] = await Promise.all([getApplianceHistory(selected), getLinkableItems()]);
+    setHistory(applianceHistory);
+    setLinkable(items);
+  };
+
+  const linkedItems = (kind: LinkableKind): LinkableItem[] => {
+    if (!history) return [];
+    return kind === 'repair' ? history.repairs : kind === 'task' ? history.tasks : history.parts;
+  };
+
+  const renderField = (key: Exclude<keyof ApplianceInput, 'type'>, label: string, placeholder: string, type = 'text') => (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-2">{label}</label>
+      <input
+        type={type}
+        value={form[key] || ''}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder}
+        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-orange-500"
+      />
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-slate-800 rounded-2xl p-6 border border-slate-700">
+          <h2 className="text-2xl font-bold text-orange-400 mb-2">My Equipment</h2>
+          <div className="text-center py-12">
+            <div className="animate-spin text-6xl mb-4">🔧</div>
+            <p className="text-slate-300">Loading your equipment...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 rounded-2xl p-6 border border-slate-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-orange-400 mb-2">My Equipment</h2>
+            <p className="text-slate-400">Your appliances and systems, with every repair and maintenance task in one place.</p>
+          </div>
+          <button
+            onClick={() => (showForm ? closeForm() : openForm(null))}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-600 hover:bg-orange-500 rounded-xl font-semibold transition-colors"
+          >
+            <Plus size={20} />
+            <span className="hidden md:inline">Add Equipment</span>
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4">{editing ? `Edit ${editing.name}` : 'Add Equipment'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as ApplianceInput['type'] })}
+                className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-orange-500"
+              >
+                {APPLIANCE_TYPES.map(type => (
+                  <option key={type} value={type}>{APPLIANCE_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            {renderField('name', 'Name', 'e.g., Basement water heater')}
+            {renderField('brand', 'Brand', 'e.g., Rheem')}
+            {renderField('model', 'Model', 'As printed on the rating plate')}
+            {renderField('serial', 'Serial', 'As printed on the rating plate')}
+            {renderField('manufacture_date', 'Manufactured', 'e.g., March 2016')}
+            {renderField('install_date', 'Installed', '', 'date')}
+            {renderField('location', 'Location', 'e.g., Basement utility room')}
+          </div>
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">Photos</label>
+            <div className="flex flex-wrap gap-3">
+              {(editing?.photos || []).filter(path => !removedPhotos.includes(path)).map(path => (
+                <div key={path} className="relative">
+                  {photoUrls[path] ? (
+                    <img src={photoUrls[path]} alt="Equipment" className="w-24 h-24 object-cover rounded-lg border border-slate-600" />
+                  ) : (
+                    <div className="w-24 h-24 rounded-lg bg-slate-900 flex items-center justify-center">
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setRemovedPhotos(prev => [...prev, path])}
+                    className="absolute -top-2 -right-2 bg-slate-700 hover:bg-red-600 rounded-full p-1 transition-colors"
+                    title="Remove photo"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {newPhotos.map((photo, idx) => (
+                <div key={idx} className="relative">
+                  <img src={photo} alt="New equipment" className="w-24 h-24 object-cover rounded-lg border border-slate-600" />
+                  <button
+                    onClick={() => setNewPhotos(prev => prev.filter((_, i) => i !== idx))}
+                    className="absolute -top-2 -right-2 bg-slate-700 hover:bg-red-600 rounded-full p-1 transition-colors"
+                    title="Remove photo"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-24 h-24 rounded-lg border-2 border-dashed border-slate-600 hover:border-orange-500 text-slate-400 hover:text-orange-400 flex flex-col items-center justify-center gap-1 text-xs transition-colors"
+              >
+                <Camera size={20} />
+                Add photo
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                multiple
+                onChange={handlePhotoSelected}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-700 rounded-lg font-semibold transition-colors"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editing ? 'Save Changes' : 'Add Equipment'}
+            </button>
+            <button
+              onClick={closeForm}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {appliances.length === 0 && !showForm ? (
+        <div className="bg-slate-800 rounded-2xl p-12 border border-slate-700 text-center">
+          <Refrigerator className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No equipment yet</h3>
+          <p className="text-slate-400">Add your water heater, furnace or dishwasher, or scan its rating plate from Issue Help.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {appliances.map(appliance => {
+            const age = applianceAgeYears(appliance);
+            const isSelected = appliance.id === selectedId;
+            const applianceWarranties = warranties.filter(warranty => warranty.appliance_id === appliance.id);
+            const coverage = applianceWarranties.map(warranty => warrantyStatus(warranty));
+
+            return (
+              <div key={appliance.id} className={`bg-slate-800 rounded-xl border transition-all ${
+                isSelected ? 'border-orange-500' : 'border-slate-700 hover:border-slate-600'
+              }`}>
+                <div className="flex items-start justify-between gap-4 p-5">
+                  <button onClick={() => setSelectedId(isSelected ? null : appliance.id)} className="flex-1 text-left">
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                      {appliance.name}
+                      {coverage.includes('active') ? (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-900/40 text-green-400 border border-green-700">Under warranty</span>
+                      ) : coverage.includes('expiring') && (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-300 border border-yellow-600/50">Warranty expiring</span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-slate-400">
+                      {APPLIANCE_TYPE_LABELS[appliance.type] || 'Equipment'}
+                      {age !== null && ` · ${age === 0 ? 'under a year' : `${age} yr${age === 1 ? '' : 's'}`} old`}
+                    </p>
+                    {(appliance.brand || appliance.model) && (
+                      <p className="text-xs text-slate-500 font-mono mt-1">
+                        {[appliance.brand, appliance.model].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </button>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => openForm(appliance)}
+                      className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(appliance)}
+                      className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                {isSelected && (
+                  <div className="border-t border-slate-700 p-5 space-y-5">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                      {appliance.serial && <p className="text-slate-300">Serial: <span className="font-mono">{appliance.serial}</span></p>}
+                      {appliance.manufacture_date && <p className="text-slate-300">Manufactured: {appliance.manufacture_date}</p>}
+                      {appliance.install_date && (
+                        <p className="text-slate-300 flex items-center gap-1">
+                          <Calendar size={14} className="text-slate-500" /> Installed {formatDate(appliance.install_date)}
+                        </p>
+                      )}
+                      {appliance.location && (
+                        <p className="text-slate-300 flex items-center gap-1">
+                          <MapPin size={14} className="text-slate-500" /> {appliance.location}
+                        </p>
+                      )}
+                    </div>
+
+                    {appliance.photos.length > 0 && (
+                      <div className="flex flex-wrap gap-3">
+                        {appliance.photos.map(path => photoUrls[path] && (
+                          <img key={path} src={photoUrls[path]} alt={appliance.name} className="w-32 h-32 object-cover rounded-lg border border-slate-600" />
+                        ))}
+                      </div>
+                    )}
+
+                    <WarrantyPanel
+                      appliance={appliance}
+                      parts={history?.parts || []}
+                      warranties={applianceWarranties}
+                      onAdded={(warranty) => setWarranties(prev => [...prev, warranty])}
+                      onDeleted={(warranty) => setWarranties(prev => prev.filter(item => item.id !== warranty.id))}
+                    />
+
+                    <ManualLibrary applianceId={appliance.id} defaultTitle={[appliance.brand, appliance.model].filter(Boolean).join(' ') || appliance.name} />
+
+                    <div>
+                      <h4 className="font-semibold text-orange-300 mb-2">History</h4>
+                      {!history ? (
+                        <Loader2 className="w-5 h-5 animate-spin text-slate-500" />
+                      ) : history.timeline.length === 0 ? (
+                        <p className="text-sm text-slate-500">Nothing yet. Link a repair or maintenance task below.</p>
+                      ) : (
+                        <ol className="space-y-2 border-l border-slate-700 pl-4">
+                          {history.timeline.map((entry, idx) => (
+                            <li key={idx} className="text-sm">
+                              <span className="text-slate-500 mr-2">{formatDate(entry.date)}</span>
+                              <span className={entry.kind === 'repair' ? 'text-orange-300' : entry.kind === 'maintenance' ? 'text-green-400' : 'text-slate-300'}>
+                                {entry.title}
+                              </span>
+                              {entry.detail && <p className="text-slate-400 text-xs mt-0.5">{entry.detail}</p>}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+
+                    {history && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {LINK_SECTIONS.map(({ kind, label, icon: Icon }) => {
+                          const linked = linkedItems(kind);
+                          const options = linkable[kind].filter(item => item.appliance_id !== appliance.id);
+
+                          return (
+                            <div key={kind} className="bg-slate-900 rounded-lg p-3">
+                              <h5 className="text-sm font-semibold text-slate-300 flex items-center gap-2 mb-2">
+                                <Icon size={14} /> {label}
+                              </h5>
+                              <ul className="space-y-1 mb-2">
+                                {linked.map(item => (
+                                  <li key={item.id} className="flex items-center justify-between gap-2 text-sm text-slate-300">
+                                    <span className="truncate">{item.title}</span>
+                                    <button
+                                      onClick={() => handleLink(kind, item.id, null)}
+                                      className="text-slate-500 hover:text-red-400 transition-colors"
+                                      title="Unlink"
+                                    >
+                                      <X size={14} />
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                              {options.length > 0 && (
+                                <div className="flex items-center gap-2">
+                                  <Link2 size={14} className="text-slate-500 flex-shrink-0" />
+                                  <select
+                                    value=""
+                                    onChange={(e) => e.target.value && handleLink(kind, e.target.value, appliance.id)}
+                                    className="w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                                  >
+                                    <option value="">Link {label.toLowerCase()}...</option>
+                                    {options.map(item => (
+                                      <option key={item.id} value={item.id}>
+                                        {item.title}{item.appliance_id ? ' (linked elsewhere)' : ''}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { DollarSign, Clock, Loader2, Hammer, UserCheck } from 'lucide-react';
+import {
+  diyCost,
+  formatCostRange,
+  formatHoursRange,
+  totalCost,
+  type CostEstimate,
+  type CostLine
+} from '../services/costEstimateService';
+
+interface CostEstimatePanelProps {
+  estimate?: CostEstimate | null;
+  /** The estimate is still being generated */
+  estimating?: boolean;
+  /** The estimate could not be generated */
+  failed?: boolean;
+}
+
+function CostLines({ lines }: { lines: CostLine[] }) {
+  return (
+    <ul className="text-sm space-y-0.5">
+      {lines.map((line, idx) => (
+        <li key={idx} className="flex justify-between gap-3">
+          <span className="text-slate-300 truncate">
+            {line.name}
+            {line.source === 'inventory' && <span className="text-xs text-green-400"> · your price</span>}
+          </span>
+          <span className="text-slate-400 flex-shrink-0">{formatCostRange(line)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Do-it-yourself versus hiring a pro: parts, tools still to buy, hours and a regional pro price
+ */
+export default function CostEstimatePanel({ estimate, estimating = false, failed = false }: CostEstimatePanelProps) {
+  if (!estimate) {
+    if (estimating) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-slate-400 mb-6">
+          <Loader2 className="w-4 h-4 animate-spin" /> Estimating cost and time...
+        </div>
+      );
+    }
+    return failed ? (
+      <p className="text-sm text-slate-500 mb-6">Cost and time estimate unavailable for this guide.</p>
+    ) : null;
+  }
+
+  const diy = diyCost(estimate);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <DollarSign className="w-5 h-5 text-emerald-400" />
+        <h5 className="text-lg font-bold text-emerald-400">Cost &amp; Time</h5>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="bg-slate-900 rounded-xl border border-slate-700 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Hammer className="w-4 h-4 text-orange-300" />
+            <span className="font-semibold text-white">Do it yourself</span>
+          </div>
+          <p className="text-2xl font-bold text-emerald-300">{formatCostRange(diy)}</p>
+          <p className="flex items-center gap-1 text-sm text-slate-400 mb-3">
+            <Clock size={14} /> {formatHoursRange(estimate.diy_hours)}
+          </p>
+
+          {estimate.parts.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs uppercase tracking-wide text-slate-500 mb-1">
+                Parts · {formatCostRange(totalCost(estimate.parts))}
+              </p>
+              <CostLines lines={estimate.parts} />
+            </div>
+          )}
+
+          {estimate.tools_to_buy.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs uppercase tracking-wide text-slate-500 mb-1">
+                Tools to buy · {formatCostRange(totalCost(estimate.tools_to_buy))}
+              </p>
+              <CostLines lines={estimate.tools_to_buy} />
+            </div>
+          )}
+
+          {estimate.owned_tools.length > 0 && (
+            <p className="text-xs text-green-400">Already own: {estimate.owned_tools.join(', ')}</p>
+          )}
+        </div>
+
+        <div className="bg-slate-900 rounded-xl border border-slate-700 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <UserCheck className="w-4 h-4 text-blue-300" />
+            <span className="font-semibold text-white">Hire a pro</span>
+          </div>
+          <p className="text-2xl font-bold text-blue-300">{formatCostRange(estimate.pro_cost)}</p>
+          <p className="text-sm text-slate-400 mb-2">{estimate.region ? `Typical for ${estimate.region}` : 'National average'}</p>
+          {estimate.pro_basis && <p className="text-sm text-slate-300">{estimate.pro_basis}</p>}
+          {estimate.pro_cost.low > diy.high && (
+            <p className="text-sm text-emerald-300 mt-2">
+              DIY could save {formatCostRange({ low: estimate.pro_cost.low - diy.high, high: estimate.pro_cost.high - diy.low })}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 mt-2">
+        Estimates only. Prices vary by store, brand and what turns up once the job is opened.
+        {!estimate.region && ' Add your ZIP code in your profile for local pro rates.'}
+      </p>
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
-import { CheckCircle2, Wrench, ListChecks, Plus, Minus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { CheckCircle2, Wrench, ListChecks, Plus, Minus, Trash2, ShieldAlert, HardHat, Power, Phone, Loader2, PlayCircle } from 'lucide-react';
 import StoreButtons from './StoreButtons';
+import GuidedRepair from './GuidedRepair';
+import WarrantyBanner from './WarrantyBanner';
+import CostEstimatePanel from './CostEstimatePanel';
+import HireAProBanner from './HireAProBanner';
+import HypothesisList from './HypothesisList';
+import SafetyAcknowledgement from './SafetyAcknowledgement';
+import type { DiagnosisResult } from '../services/diagnosisService';
+import { HAZARD_LABELS, stepsLocked, type HazardSeverity } from '../services/safetyService';
 
-interface DiagnosisResult {
-  title: string;
-  summary: string;
-  parts_needed: string[];
-  tools_needed: string[];
-  steps: string[];
-}
+const SEVERITY_STYLES: Record<HazardSeverity, string> = {
+  low: 'bg-slate-900 text-slate-300 border-slate-600',
+  moderate: 'bg-yellow-900/40 text-yellow-300 border-yellow-600/50',
+  high: 'bg-red-900/40 text-red-300 border-red-600/50',
+  critical: 'bg-red-700 text-white border-red-500'
+};
 
 interface DiagnosisSummaryCardProps {
   diagnosisResult: DiagnosisResult;
@@ -16,6 +24,22 @@ interface DiagnosisSummaryCardProps {
   onRemovePart: (part: string) => void;
   onAddToShoppingList: () => void;
   partsAdded: string[];
+  /** Read-only preview shown before the report is generated (no quantities, shopping list or saved banner) */
+  preview?: boolean;
+  /** The guide is still streaming in - sections fill as they arrive */
+  streaming?: boolean;
+  /** Saved repair the guided mode stores its progress on */
+  repairId?: string | null;
+  /** The cost estimate is still being generated */
+  estimatingCost?: boolean;
+  /** The cost estimate could not be generated */
+  costEstimateFailed?: boolean;
+  /** Regenerate parts and steps for another ranked hypothesis */
+  onSelectHypothesis?: (index: number) => void;
+  /** Hypothesis whose guide is being generated */
+  switchingHypothesis?: number | null;
+  /** Record that the user acknowledged a high-risk guide's risks (stored on the diagnosis) */
+  onAcknowledgeSafety?: () => void;
 }
 
 export default function DiagnosisSummaryCard({
@@ -24,31 +48,91 @@ export default function DiagnosisSummaryCard({
   onUpdateQuantity,
   onRemovePart,
   onAddToShoppingList,
-  partsAdded
+  partsAdded,
+  preview = false,
+  streaming = false,
+  repairId = null,
+  estimatingCost = false,
+  costEstimateFailed = false,
+  onSelectHypothesis,
+  switchingHypothesis = null,
+  onAcknowledgeSafety
 }: DiagnosisSummaryCardProps) {
+  // Guided mode is tied to the diagnosis title so a new diagnosis starts on the step list
+  const [guidedTitle, setGuidedTitle] = useState<string | null>(null);
+
+  const safety = diagnosisResult.safety;
+  // The acknowledgement lives on the diagnosis, so it survives a remount and each new guide is gated again
+  const stepsHidden = stepsLocked(safety, diagnosisResult.safety_acknowledged_at);
+
   return (
     <div className="bg-gradient-to-br from-orange-900/30 to-slate-800 rounded-2xl p-6 border-2 border-orange-500/50 shadow-2xl">
       {/* Header with Icon */}
       <div className="flex items-start gap-3 mb-4">
         <div className="bg-orange-600 rounded-full p-2 flex-shrink-0">
-          <CheckCircle2 className="w-6 h-6 text-white" />
+          {streaming ? (
+            <Loader2 className="w-6 h-6 text-white animate-spin" />
+          ) : (
+            <CheckCircle2 className="w-6 h-6 text-white" />
+          )}
         </div>
         <div className="flex-1">
           <h3 className="text-2xl font-bold text-orange-400 mb-2">
-            Diagnosis Complete
+            {streaming ? 'Building Your Repair Guide...' : 'Diagnosis Complete'}
           </h3>
           <h4 className="text-xl font-semibold text-white">
             {diagnosisResult.title}
           </h4>
+          {(diagnosisResult.difficulty || diagnosisResult.source || safety) && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {diagnosisResult.difficulty && (
+                <span className="text-xs font-semibold px-2 py-1 rounded-full bg-slate-900 text-orange-300 border border-orange-500/40">
+                  Difficulty: {diagnosisResult.difficulty}
+                </span>
+              )}
+              {safety && safety.severity !== 'low' && (
+                <span className={`text-xs font-semibold px-2 py-1 rounded-full border ${SEVERITY_STYLES[safety.severity]}`}>
+                  Risk: {safety.severity}
+                </span>
+              )}
+              {diagnosisResult.source && (
+                <span
+                  className="text-xs px-2 py-1 rounded-full bg-slate-900 text-slate-400 border border-slate-700"
+                  title={diagnosisResult.source === 'schema' ? 'Structured guide validated against the schema' : 'Parsed from the text guide (structured guide unavailable)'}
+                >
+                  {diagnosisResult.source === 'schema' ? 'Structured guide' : 'Parsed from text'}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Summary */}
-      <div className="bg-slate-900/50 rounded-lg p-4 mb-6">
-        <p className="text-slate-300 leading-relaxed">
-          {diagnosisResult.summary}
-        </p>
-      </div>
+      {diagnosisResult.summary && (
+        <div className="bg-slate-900/50 rounded-lg p-4 mb-6">
+          <p className="text-slate-300 leading-relaxed">
+            {diagnosisResult.summary}
+          </p>
+        </div>
+      )}
+
+      {/* Ranked candidate causes */}
+      {diagnosisResult.hypotheses && (
+        <HypothesisList
+          hypotheses={diagnosisResult.hypotheses}
+          activeIndex={diagnosisResult.active_hypothesis ?? 0}
+          onSelect={onSelectHypothesis}
+          switchingIndex={switchingHypothesis}
+          disabled={streaming}
+        />
+      )}
+
+      {/* Warranty check before any DIY work */}
+      {!streaming && <WarrantyBanner diagnosisResult={diagnosisResult} />}
+
+      {/* Above the user's skill level or comfort limits */}
+      {!streaming && <HireAProBanner diagnosisResult={diagnosisResult} />}
 
       {/* Parts Needed */}
       {diagnosisResult.parts_needed.length > 0 && (
@@ -62,16 +146,18 @@ export default function DiagnosisSummaryCard({
           <div className="space-y-3">
             {diagnosisResult.parts_needed.map((part: string, index: number) => (
               <div key={`part-${index}`} className="relative p-4 bg-slate-900 rounded-xl border border-slate-700">
-                <button
-                  onClick={() => onRemovePart(part)}
-                  className="absolute top-2 right-2 p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded transition-colors"
-                  title="Remove this part"
-                >
-                  <Trash2 size={14} />
-                </button>
+                {!preview && (
+                  <button
+                    onClick={() => onRemovePart(part)}
+                    className="absolute top-2 right-2 p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded transition-colors"
+                    title="Remove this part"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
                 <div className="flex items-center justify-between mb-2 pr-8">
                   <h4 className="text-white font-semibold">{part}</h4>
-                  <div className="flex items-center gap-1">
+                  <div className={`flex items-center gap-1 ${preview ? 'hidden' : ''}`}>
                     <span className="text-xs text-slate-400 mr-1">Qty: </span>
                     <button
                       onClick={() => {
@@ -114,16 +200,18 @@ export default function DiagnosisSummaryCard({
           <div className="space-y-3">
             {diagnosisResult.tools_needed.map((tool: string, index: number) => (
               <div key={`tool-${index}`} className="relative p-4 bg-slate-900 rounded-xl border border-slate-700">
-                <button
-                  onClick={() => onRemovePart(tool)}
-                  className="absolute top-2 right-2 p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded transition-colors"
-                  title="Remove this tool"
-                >
-                  <Trash2 size={14} />
-                </button>
+                {!preview && (
+                  <button
+                    onClick={() => onRemovePart(tool)}
+                    className="absolute top-2 right-2 p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded transition-colors"
+                    title="Remove this tool"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
                 <div className="flex items-center justify-between mb-2 pr-8">
                   <h4 className="text-white font-semibold">{tool}</h4>
-                  <div className="flex items-center gap-1">
+                  <div className={`flex items-center gap-1 ${preview ? 'hidden' : ''}`}>
                     <span className="text-xs text-slate-400 mr-1">Qty: </span>
                     <button
                       onClick={() => {
@@ -154,30 +242,110 @@ export default function DiagnosisSummaryCard({
         </div>
       )}
 
+      {/* DIY versus pro cost and time */}
+      {!streaming && <CostEstimatePanel estimate={diagnosisResult.cost_estimate} estimating={estimatingCost} failed={costEstimateFailed} />}
+
+      {/* Safety */}
+      {safety && safety.hazards.length > 0 && (
+        <div className={`rounded-lg p-4 mb-6 border ${SEVERITY_STYLES[safety.severity]}`}>
+          <div className="flex items-center gap-2 mb-2">
+            <ShieldAlert className="w-5 h-5" />
+            <h5 className="text-lg font-bold">Safety First</h5>
+          </div>
+          {safety.reason && <p className="text-sm mb-3">{safety.reason}</p>}
+          <div className="flex flex-wrap gap-2 mb-3">
+            {safety.hazards.map(hazard => (
+              <span key={hazard} className="text-xs px-2 py-1 rounded-full bg-slate-900/70 border border-current">
+                {HAZARD_LABELS[hazard]}
+              </span>
+            ))}
+          </div>
+
+          {safety.call_a_pro && (
+            <div className="flex items-start gap-2 bg-slate-900/70 rounded-lg p-3 mb-3">
+              <Phone className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p className="text-sm">
+                We recommend calling a licensed professional for this repair. The steps below are for reference only.
+              </p>
+            </div>
+          )}
+
+          {safety.ppe.length > 0 && (
+            <div className="mb-3">
+              <div className="flex items-center gap-2 mb-1">
+                <HardHat className="w-4 h-4" />
+                <span className="text-sm font-semibold">Wear</span>
+              </div>
+              <ul className="text-sm list-disc list-inside space-y-0.5">
+                {safety.ppe.map((item, idx) => <li key={idx}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {safety.shutoff_steps.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <Power className="w-4 h-4" />
+                <span className="text-sm font-semibold">Before you start</span>
+              </div>
+              <ol className="text-sm list-decimal list-inside space-y-0.5">
+                {safety.shutoff_steps.map((step, idx) => <li key={idx}>{step}</li>)}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Acknowledgement gate for high-risk repairs */}
+      {diagnosisResult.steps.length > 0 && stepsHidden && (
+        <SafetyAcknowledgement
+          onAcknowledge={() => onAcknowledgeSafety?.()}
+          disabled={streaming || !onAcknowledgeSafety}
+          className="mb-6"
+        />
+      )}
+
       {/* Repair Steps */}
-      {diagnosisResult.steps.length > 0 && (
+      {diagnosisResult.steps.length > 0 && !stepsHidden && (
         <div className="mb-6">
           <div className="flex items-center gap-2 mb-3">
             <ListChecks className="w-5 h-5 text-orange-400" />
-            <h5 className="text-lg font-bold text-orange-400">Repair Steps</h5>
-          </div>
-          <div className="bg-slate-900/50 rounded-lg p-4">
-            <ol className="space-y-3">
-              {diagnosisResult.steps.map((step, idx) => (
-                <li key={idx} className="flex gap-3 text-white">
-                  <span className="flex-shrink-0 bg-orange-600 text-white font-bold rounded-full w-6 h-6 flex items-center justify-center text-sm">
-                    {idx + 1}
-                  </span>
-                  <span className="flex-1 pt-0.5">{step}</span>
-                </li>
-              ))}
-            </ol>
+            <h5 className="text-lg font-bold text-orange-400 flex-1">Repair Steps</h5>
+            {!preview && guidedTitle !== diagnosisResult.title && (
+              <button
+                onClick={() => setGuidedTitle(diagnosisResult.title)}
+                className="flex items-center gap-1 bg-orange-600 hover:bg-orange-500 text-white px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors"
+              >
+                <PlayCircle className="w-4 h-4" />
+                Guided repair
+              </button>
+            )}
           </div>
+          {!preview && guidedTitle === diagnosisResult.title ? (
+            <GuidedRepair
+              guide={diagnosisResult}
+              repairId={repairId}
+              onClose={() => setGuidedTitle(null)}
+            />
+          ) : (
+            <div className="bg-slate-900/50 rounded-lg p-4">
+              <ol className="space-y-3">
+                {diagnosisResult.steps.map((step, idx) => (
+                  <li key={idx} className="flex gap-3 text-white">
+                    <span className="flex-shrink-0 bg-orange-600 text-white font-bold rounded-full w-6 h-6 flex items-center justify-center text-sm">
+                      {idx + 1}
+                    </span>
+                    <span className="flex-1 pt-0.5">{step}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </div>
       )}
 
       {/* Add to Shopping List */}
-      {diagnosisResult.parts_needed.length > 0 && partsAdded.length === 0 && (
+      {!preview && diagnosisResult.parts_needed.length > 0 && partsAdded.length === 0 && (
         <div className="mb-6">
           <button
             onClick={onAddToShoppingList}
@@ -196,10 +364,12 @@ export default function DiagnosisSummaryCard({
       )}
 
       {/* Report Generated Message */}
-      <div className="w-full bg-green-600 text-white font-bold py-4 px-6 rounded-xl shadow-lg flex items-center justify-center gap-2">
-        <CheckCircle2 className="w-5 h-5" />
-        Hero Report Generated & Saved!
-      </div>
+      {!preview && (
+        <div className="w-full bg-green-600 text-white font-bold py-4 px-6 rounded-xl shadow-lg flex items-center justify-center gap-2">
+          <CheckCircle2 className="w-5 h-5" />
+          Hero Report Generated & Saved!
+        </div>
+      )}
     </div>
   );
 }
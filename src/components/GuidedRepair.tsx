@@ -0,0 +1,346 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Camera, Loader2, MessageCircleQuestion, X, CheckCircle2, AlertTriangle, HelpCircle } from 'lucide-react';
+import { askAboutStep, checkStepPhoto } from '../services/geminiService';
+import { compressImage } from '../services/imageMemoryService';
+import { getRepairProgress, saveRepairProgress } from '../services/repairService';
+import {
+  STEP_CHECK_LABELS,
+  completedStepCount,
+  normalizeRepairProgress,
+  updateStepProgress,
+  type GuidedRepairGuide,
+  type RepairProgress,
+  type StepCheckVerdict
+} from '../services/guidedRepairService';
+
+const VERDICT_STYLES: Record<StepCheckVerdict, string> = {
+  looks_right: 'bg-green-900/30 border-green-700 text-green-300',
+  needs_attention: 'bg-red-900/30 border-red-600/50 text-red-300',
+  unclear: 'bg-yellow-900/30 border-yellow-600/50 text-yellow-300'
+};
+
+const VERDICT_ICONS: Record<StepCheckVerdict, typeof CheckCircle2> = {
+  looks_right: CheckCircle2,
+  needs_attention: AlertTriangle,
+  unclear: HelpCircle
+};
+
+interface GuidedRepairProps {
+  guide: GuidedRepairGuide;
+  /** Saved repair the progress belongs to; without one progress only lasts until the mode is closed */
+  repairId: string | null;
+  /** Progress already loaded with the repair (skips fetching it) */
+  initialProgress?: RepairProgress | null;
+  onProgressChange?: (progress: RepairProgress) => void;
+  onClose: () => void;
+}
+
+/**
+ * Walk through a repair guide one step at a time
+ * Each step has a checkbox, an "ask about this step" chat and an optional photo check.
+ * Progress is saved on the repair after every change so it can be resumed later.
+ */
+export default function GuidedRepair({ guide, repairId, initialProgress, onProgressChange, onClose }: GuidedRepairProps) {
+  const [progress, setProgress] = useState<RepairProgress | null>(null);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [checkingPhoto, setCheckingPhoto] = useState(false);
+  const [stepPhoto, setStepPhoto] = useState<{ step: number; image: string } | null>(null);
+  const progressRef = useRef<RepairProgress | null>(null);
+  // Repair the current progress belongs to
+  const progressRepairRef = useRef<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const stepCount = guide.steps.length;
+
+  // Load saved progress; if the repair is saved while the mode is open, keep what was done so far
+  useEffect(() => {
+    let cancelled = false;
+
+    if (progressRef.current) {
+      if (repairId && repairId !== progressRepairRef.current) {
+        progressRepairRef.current = repairId;
+        saveRepairProgress(repairId, progressRef.current);
+      }
+      return;
+    }
+
+    const load = initialProgress !== undefined || !repairId
+      ? Promise.resolve(initialProgress || null)
+      : getRepairProgress(repairId);
+
+    load.then(saved => {
+      if (cancelled) return;
+      const loaded = normalizeRepairProgress(saved, stepCount);
+      progressRef.current = loaded;
+      progressRepairRef.current = repairId;
+      setProgress(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repairId, initialProgress, stepCount]);
+
+  const commit = (next: RepairProgress) => {
+    progressRef.current = next;
+    setProgress(next);
+    onProgressChange?.(next);
+    if (repairId) saveRepairProgress(repairId, next);
+  };
+
+  if (!progress) {
+    return (
+      <div className="bg-slate-900/50 rounded-lg p-6 flex items-center justify-center gap-2 text-slate-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading your progress...
+      </div>
+    );
+  }
+
+  const stepIndex = progress.current_step;
+  const step = progress.steps[stepIndex];
+  const done = completedStepCount(progress);
+  const isLastStep = stepIndex === stepCount - 1;
+
+  const goToStep = (index: number) => {
+    setQuestion('');
+    setStepPhoto(null);
+    commit({ ...progress, current_step: index, updated_at: new Date().toISOString() });
+  };
+
+  const toggleDone = (checked: boolean) => {
+    commit(updateStepProgress(progress, stepIndex, { done: checked }));
+  };
+
+  const handleNext = () => {
+    if (step.photo_check?.verdict === 'needs_attention'
+      && !confirm('The photo check flagged a problem with this step. Move on anyway?')) {
+      return;
+    }
+    // Moving on counts as finishing the step
+    const next = step.done ? progress : updateStepProgress(progress, stepIndex, { done: true });
+    setQuestion('');
+    setStepPhoto(null);
+    commit({ ...next, current_step: Math.min(stepIndex + 1, stepCount - 1) });
+  };
+
+  const handleFinish = () => {
+    if (!step.done) toggleDone(true);
+  };
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || asking) return;
+
+    setAsking(true);
+    const answer = await askAboutStep(guide, stepIndex, text, step.questions);
+    setAsking(false);
+
+    if (!answer) {
+      alert("Couldn't get an answer right now. Please try again.");
+      return;
+    }
+
+    setQuestion('');
+    // Re-read the latest progress - the user may have ticked the step while waiting
+    const latest = progressRef.current || progress;
+    commit(updateStepProgress(latest, stepIndex, {
+      questions: [...latest.steps[stepIndex].questions, { question: text, answer }]
+    }));
+  };
+
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setCheckingPhoto(true);
+    try {
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read photo'));
+        reader.readAsDataURL(file);
+      });
+      const image = await compressImage(dataUrl, 1024, 0.7);
+      setStepPhoto({ step: stepIndex, image });
+
+      const check = await checkStepPhoto(guide, stepIndex, image);
+      const latest = progressRef.current || progress;
+      commit(updateStepProgress(latest, stepIndex, { photo_check: check }));
+    } catch (error) {
+      console.error('Error checking step photo:', error);
+      alert('Could not read that photo. Please try another one.');
+    } finally {
+      setCheckingPhoto(false);
+    }
+  };
+
+  const VerdictIcon = step.photo_check ? VERDICT_ICONS[step.photo_check.verdict] : null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-4 space-y-4">
+      {/* Progress */}
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex-1">
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-white font-semibold">Step {stepIndex + 1} of {stepCount}</span>
+            <span className="text-slate-400">{done}/{stepCount} done</span>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-orange-500 transition-all"
+              style={{ width: `${stepCount > 0 ? (done / stepCount) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+          title="Back to the full step list"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {/* Step dots */}
+      <div className="flex flex-wrap gap-2">
+        {progress.steps.map((s, idx) => (
+          <button
+            key={idx}
+            onClick={() => goToStep(idx)}
+            className={`w-7 h-7 rounded-full text-xs font-bold border transition-colors ${
+              idx === stepIndex
+                ? 'bg-orange-600 border-orange-400 text-white'
+                : s.done
+                  ? 'bg-green-700 border-green-500 text-white'
+                  : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-orange-500'
+            }`}
+            title={`Step ${idx + 1}${s.done ? ' (done)' : ''}`}
+          >
+            {s.done && idx !== stepIndex ? '✓' : idx + 1}
+          </button>
+        ))}
+      </div>
+
+      {/* Current step */}
+      <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+        <p className="text-white leading-relaxed">{guide.steps[stepIndex]}</p>
+        <label className="flex items-center gap-2 mt-4 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={step.done}
+            onChange={(e) => toggleDone(e.target.checked)}
+          />
+          I've finished this step
+        </label>
+      </div>
+
+      {/* Photo check */}
+      <div>
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handlePhotoSelected}
+          className="hidden"
+        />
+        <button
+          onClick={() => photoInputRef.current?.click()}
+          disabled={checkingPhoto}
+          className="flex items-center gap-2 text-sm text-orange-300 hover:text-orange-200 disabled:text-slate-500 transition-colors"
+        >
+          {checkingPhoto ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+          {checkingPhoto ? 'Checking your photo...' : 'Does this look right? Send a photo'}
+        </button>
+        {step.photo_check && VerdictIcon && (
+          <div className={`mt-2 flex gap-3 rounded-lg border p-3 text-sm ${VERDICT_STYLES[step.photo_check.verdict]}`}>
+            {stepPhoto?.step === stepIndex && (
+              <img src={stepPhoto.image} alt={`Step ${stepIndex + 1} photo`} className="w-16 h-16 object-cover rounded" />
+            )}
+            <div>
+              <div className="flex items-center gap-1 font-semibold mb-1">
+                <VerdictIcon className="w-4 h-4" />
+                {STEP_CHECK_LABELS[step.photo_check.verdict]}
+              </div>
+              <p className="text-slate-200">{step.photo_check.feedback}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Ask about this step */}
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <MessageCircleQuestion className="w-4 h-4 text-blue-400" />
+          <h6 className="text-sm font-semibold text-blue-400">Ask about this step</h6>
+        </div>
+        {step.questions.length > 0 && (
+          <div className="space-y-2 mb-2">
+            {step.questions.map((qa, idx) => (
+              <div key={idx} className="text-sm">
+                <p className="text-slate-400">You: {qa.question}</p>
+                <p className="text-slate-200 mt-1">{qa.answer}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAsk();
+            }}
+            placeholder="e.g. Which way do I turn it?"
+            disabled={asking}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-orange-500"
+          />
+          <button
+            onClick={handleAsk}
+            disabled={asking || !question.trim()}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white px-3 py-2 rounded-lg text-sm font-semibold transition-colors"
+          >
+            {asking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Ask'}
+          </button>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-700">
+        <button
+          onClick={() => goToStep(stepIndex - 1)}
+          disabled={stepIndex === 0}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-800 disabled:text-slate-600 disabled:hover:bg-transparent transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        {isLastStep ? (
+          <button
+            onClick={handleFinish}
+            disabled={step.done}
+            className="bg-green-600 hover:bg-green-500 disabled:bg-green-900/50 disabled:text-green-300 text-white px-4 py-2 rounded-lg text-sm font-bold transition-colors"
+          >
+            {progress.completed_at ? 'Repair complete!' : step.done ? 'Step done' : 'Finish repair'}
+          </button>
+        ) : (
+          <button
+            onClick={handleNext}
+            className="flex items-center gap-1 bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-lg text-sm font-bold transition-colors"
+          >
+            Next step
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!repairId && (
+        <p className="text-xs text-slate-500">Sign in and save this repair to keep your progress.</p>
+      )}
+    </div>
+  );
+}
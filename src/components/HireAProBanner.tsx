@@ -0,0 +1,39 @@
+import { UserCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { DiagnosisResult } from '../services/diagnosisService';
+import { formatCostRange } from '../services/costEstimateService';
+import { hireAProReasons } from '../services/skillProfileService';
+
+interface HireAProBannerProps {
+  diagnosisResult: Pick<DiagnosisResult, 'difficulty' | 'safety' | 'cost_estimate'>;
+}
+
+/**
+ * Suggestion to hire a pro when a guide is above the user's skill level or crosses a comfort limit
+ */
+export default function HireAProBanner({ diagnosisResult }: HireAProBannerProps) {
+  const { profile } = useAuth();
+  const reasons = hireAProReasons(diagnosisResult, profile);
+
+  if (reasons.length === 0) return null;
+
+  const estimate = diagnosisResult.cost_estimate;
+
+  return (
+    <div className="bg-purple-900/30 border border-purple-500/60 rounded-lg p-4 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <UserCheck className="w-5 h-5 text-purple-300" />
+        <h5 className="font-bold text-purple-300">Consider hiring a pro for this one</h5>
+      </div>
+      <ul className="text-sm text-slate-200 list-disc list-inside space-y-0.5 mb-2">
+        {reasons.map((reason, idx) => <li key={idx}>{reason}</li>)}
+      </ul>
+      <p className="text-xs text-slate-400">
+        {estimate
+          ? `A pro typically charges ${formatCostRange(estimate.pro_cost)}${estimate.pro_basis ? ` (${estimate.pro_basis})` : ''}. `
+          : ''}
+        You can change your skill level and comfort limits in your profile.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Lightbulb, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { DiagnosisHypothesis } from '../services/diagnosisService';
+
+interface HypothesisListProps {
+  hypotheses: DiagnosisHypothesis[];
+  /** Hypothesis the parts and steps currently fix */
+  activeIndex: number;
+  /** Regenerate the guide for another hypothesis - omitted for read-only lists */
+  onSelect?: (index: number) => void;
+  /** Hypothesis whose guide is being generated */
+  switchingIndex?: number | null;
+  disabled?: boolean;
+}
+
+/**
+ * Ranked candidate causes with confidence and a test that tells each apart
+ */
+export default function HypothesisList({ hypotheses, activeIndex, onSelect, switchingIndex = null, disabled = false }: HypothesisListProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (hypotheses.length < 2) return null;
+
+  // The active cause always shows; the rest fold away until asked for
+  const visible = expanded ? hypotheses : hypotheses.filter((_, idx) => idx === activeIndex);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Lightbulb className="w-5 h-5 text-yellow-400" />
+        <h5 className="text-lg font-bold text-yellow-400 flex-1">Likely Causes</h5>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="flex items-center gap-1 text-sm text-slate-300 hover:text-white transition-colors"
+        >
+          {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          {expanded ? 'Hide alternatives' : `${hypotheses.length - 1} other possibilit${hypotheses.length === 2 ? 'y' : 'ies'}`}
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {visible.map(hypothesis => {
+          const idx = hypotheses.indexOf(hypothesis);
+          const active = idx === activeIndex;
+          return (
+            <li
+              key={idx}
+              className={`rounded-xl p-3 border ${active ? 'bg-slate-900 border-orange-500/60' : 'bg-slate-900/50 border-slate-700'}`}
+            >
+              <div className="flex items-center gap-3 mb-1">
+                <span className="text-white font-semibold flex-1">
+                  {idx + 1}. {hypothesis.cause}
+                  {active && <span className="ml-2 text-xs font-normal text-orange-300">Guide below fixes this</span>}
+                </span>
+                <span className="text-sm text-slate-400 flex-shrink-0">{hypothesis.confidence}%</span>
+              </div>
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-2">
+                <div
+                  className={`h-full ${active ? 'bg-orange-500' : 'bg-slate-500'}`}
+                  style={{ width: `${hypothesis.confidence}%` }}
+                />
+              </div>
+              {hypothesis.distinguishing_test && (
+                <p className="text-sm text-slate-300">
+                  <span className="text-slate-500">Test: </span>
+                  {hypothesis.distinguishing_test}
+                </p>
+              )}
+              {!active && onSelect && (
+                <button
+                  onClick={() => onSelect(idx)}
+                  disabled={disabled || switchingIndex !== null}
+                  className="mt-2 flex items-center gap-1 text-sm text-orange-300 hover:text-orange-200 disabled:text-slate-500 transition-colors"
+                >
+                  {switchingIndex === idx && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {switchingIndex === idx ? 'Building guide...' : 'This is it - show parts and steps for this'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
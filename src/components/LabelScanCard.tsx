@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ScanLine, X, Loader2, HardDrive, Package, MessageSquare } from 'lucide-react';
+import {
+  LABEL_FIELDS,
+  LABEL_KIND_LABELS,
+  saveLabelAsAppliance,
+  saveLabelAsPart,
+  type LabelScan
+} from '../services/labelScanService';
+
+interface LabelScanCardProps {
+  /** Photo of the label */
+  image: string;
+  /** Fields read from the label, null while the scan is running */
+  scan: LabelScan | null;
+  onUseInChat: (scan: LabelScan) => void;
+  onClose: () => void;
+}
+
+/**
+ * Confirm the fields read from a rating plate or label, then save them
+ * to the equipment registry or the parts inventory
+ */
+export default function LabelScanCard({ image, scan, onUseInChat, onClose }: LabelScanCardProps) {
+  // Edits start from the scan; null until the user changes a field
+  const [edited, setEdited] = useState<LabelScan | null>(null);
+  const [saving, setSaving] = useState<'equipment' | 'part' | null>(null);
+  const [savedTo, setSavedTo] = useState<Array<'equipment' | 'part'>>([]);
+
+  const fields = edited || scan;
+
+  const handleSave = async (target: 'equipment' | 'part') => {
+    if (!fields) return;
+
+    setSaving(target);
+    const saved = target === 'equipment'
+      ? await saveLabelAsAppliance(fields, image)
+      : await saveLabelAsPart(fields);
+    setSaving(null);
+
+    if (saved) setSavedTo(prev => [...prev, target]);
+  };
+
+  // Rating plates belong to an appliance; filters and stickers are replacement parts
+  const equipmentFirst = !fields || fields.kind === 'rating-plate' || fields.kind === 'other';
+  const targets: Array<'equipment' | 'part'> = equipmentFirst ? ['equipment', 'part'] : ['part', 'equipment'];
+
+  const saveButtons = targets.map((target, idx) => (
+    <button
+      key={target}
+      onClick={() => handleSave(target)}
+      disabled={!fields || saving !== null || savedTo.includes(target)}
+      className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:bg-slate-700 disabled:text-slate-400 ${
+        idx === 0 ? 'bg-orange-600 hover:bg-orange-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-white'
+      }`}
+    >
+      {saving === target ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : target === 'equipment' ? (
+        <HardDrive className="w-4 h-4" />
+      ) : (
+        <Package className="w-4 h-4" />
+      )}
+      {savedTo.includes(target)
+        ? 'Saved'
+        : target === 'equipment' ? 'Save to my equipment' : 'Save as a part'}
+    </button>
+  ));
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-4 border border-orange-500/50">
+      <div className="flex items-start gap-3 mb-4">
+        <ScanLine className="w-6 h-6 text-orange-400 flex-shrink-0" />
+        <div className="flex-1">
+          <h3 className="text-lg font-bold text-orange-400">
+            {fields ? LABEL_KIND_LABELS[fields.kind] : 'Reading label...'}
+          </h3>
+          <p className="text-xs text-slate-400">Check the numbers against the label before saving</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <img src={image} alt="Scanned label" className="w-full sm:w-40 h-40 object-cover rounded-lg border border-slate-600" />
+
+        {fields ? (
+          <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {LABEL_FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-slate-400">
+                {field.label}
+                <input
+                  type="text"
+                  value={fields[field.key]}
+                  onChange={(e) => setEdited({ ...fields, [field.key]: e.target.value })}
+                  placeholder="Not found"
+                  className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white font-mono placeholder-slate-600 focus:outline-none focus:border-orange-500"
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center gap-2 text-slate-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Reading brand, model and serial...
+          </div>
+        )}
+      </div>
+
+      {fields && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {saveButtons}
+          <button
+            onClick={() => onUseInChat(fields)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700 transition-colors"
+          >
+            <MessageSquare className="w-4 h-4" />
+            Ask about it
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
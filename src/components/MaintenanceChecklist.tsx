@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { CheckCircle2, Circle, Trash2, Plus, ChevronDown, ChevronUp, Clock, FileText, Wrench, AlertTriangle, Calendar, ShoppingCart, ExternalLink } from 'lucide-react';
+import { CheckCircle2, Circle, Trash2, Plus, ChevronDown, ChevronUp, Clock, FileText, Wrench, AlertTriangle, Calendar, ShoppingCart, ExternalLink, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import {
   getMaintenanceTasks,
@@ -17,10 +17,21 @@ import {
   type MaintenancePart
 } from '../services/maintenanceService';
 import { generateAffiliateLinks } from '../services/affiliateService';
+import { getAppliances, type Appliance } from '../services/applianceService';
+import {
+  WARRANTY_KIND_LABELS,
+  formatExpiry,
+  getWarranties,
+  getWarrantyReminders,
+  warrantyStatus,
+  type Warranty
+} from '../services/warrantyService';
 
 export default function MaintenanceChecklist() {
   const { user } = useAuth();
   const [tasks, setTasks] = useState<MaintenanceTask[]>([]);
+  const [warrantyReminders, setWarrantyReminders] = useState<Warranty[]>([]);
+  const [appliances, setAppliances] = useState<Appliance[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingTask, setEditingTask] = useState<string | null>(null);
@@ -35,8 +46,14 @@ export default function MaintenanceChecklist() {
   useEffect(() => {
     const loadTasks = async () => {
       try {
-        const updatedTasks = await getMaintenanceTasks();
+        const [updatedTasks, warranties, userAppliances] = await Promise.all([
+          getMaintenanceTasks(),
+          getWarranties(),
+          getAppliances()
+        ]);
         setTasks(updatedTasks);
+        setWarrantyReminders(getWarrantyReminders(warranties));
+        setAppliances(userAppliances);
       } catch (error) {
         console.error('Error loading tasks:', error);
       } finally {
@@ -218,6 +235,12 @@ export default function MaintenanceChecklist() {
                   {dueSoonCount} due soon
                 </span>
               )}
+              {warrantyReminders.length > 0 && (
+                <span className="flex items-center gap-1 text-blue-300">
+                  <ShieldCheck size={12} />
+                  {warrantyReminders.length} warrant{warrantyReminders.length === 1 ? 'y' : 'ies'} expiring
+                </span>
+              )}
             </div>
             <span className="text-slate-500">
               {tasks.filter(t => t.status === 'upcoming').length} upcoming
@@ -272,6 +295,32 @@ export default function MaintenanceChecklist() {
         </div>
       )}
 
+      {/* Warranty expiry reminders, alongside the due tasks */}
+      {warrantyReminders.length > 0 && (
+        <div className="bg-slate-800 rounded-xl p-4 border border-blue-500/40">
+          <h3 className="font-semibold text-blue-300 flex items-center gap-2 mb-2">
+            <ShieldCheck size={16} />
+            Warranty reminders
+          </h3>
+          <ul className="space-y-1">
+            {warrantyReminders.map(warranty => {
+              const appliance = appliances.find(item => item.id === warranty.appliance_id);
+              return (
+                <li key={warranty.id} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-slate-300">
+                    {appliance ? `${appliance.name}: ` : ''}{WARRANTY_KIND_LABELS[warranty.kind]} ({warranty.provider})
+                  </span>
+                  <span className={warrantyStatus(warranty) === 'expired' ? 'text-slate-500' : 'text-yellow-400'}>
+                    {formatExpiry(warranty)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-slate-500 mt-2">Get any covered repairs or inspections booked before the coverage ends.</p>
+        </div>
+      )}
+
       <div className="space-y-3">
         {tasks.map((task) => (
           <div
@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef } from 'react';
+import { BookOpen, FileUp, Camera, Trash2, Loader2, ExternalLink } from 'lucide-react';
+import { transcribeManualPage } from '../services/geminiService';
+import { compressImage } from '../services/imageMemoryService';
+import { getMediaUrl } from '../services/mediaService';
+import { addManual, deleteManual, extractPdfPages, getManuals, type Manual } from '../services/manualService';
+
+interface ManualLibraryProps {
+  /** Attach manuals to this appliance... */
+  applianceId?: string;
+  /** ...or to this saved repair */
+  repairId?: string;
+  /** Suggested title for a new manual, e.g. the appliance name */
+  defaultTitle?: string;
+}
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error('Failed to read file'));
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Owner's manuals attached to an appliance or saved repair
+ * PDFs are read on the device; photographed pages are transcribed once when added.
+ * Issue Help searches these manuals and cites their pages in answers.
+ */
+export default function ManualLibrary({ applianceId, repairId, defaultTitle = '' }: ManualLibraryProps) {
+  const [manuals, setManuals] = useState<Manual[]>([]);
+  const [title, setTitle] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const pdfInputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getManuals({ applianceId, repairId }).then(attached => {
+      if (!cancelled) setManuals(attached);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applianceId, repairId]);
+
+  const manualTitle = () => title.trim() || (defaultTitle ? `${defaultTitle} manual` : 'Owner\'s manual');
+
+  const saveManual = async (source: Manual['source'], pages: Array<{ page: number; text: string }>, file: string | null) => {
+    const saved = await addManual({ title: manualTitle(), source, appliance_id: applianceId, repair_id: repairId }, pages, file);
+    if (saved) {
+      setManuals(prev => [...prev, saved].sort((a, b) => a.title.localeCompare(b.title)));
+      setTitle('');
+    }
+  };
+
+  const handlePdfSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setProgress('Reading PDF...');
+    try {
+      const pages = (await extractPdfPages(file)).map((text, idx) => ({ page: idx + 1, text }));
+      if (!pages.some(page => page.text)) {
+        alert('This PDF has no text layer (it is probably a scan). Add photos of the pages you need instead.');
+        return;
+      }
+
+      setProgress('Saving manual...');
+      await saveManual('pdf', pages, await readAsDataUrl(file));
+    } catch (error) {
+      console.error('Error reading manual PDF:', error);
+      alert('Could not read that PDF. Please try another file.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handlePhotosSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const pages: Array<{ page: number; text: string }> = [];
+    let firstPhoto: string | null = null;
+    try {
+      for (const [idx, file] of files.entries()) {
+        setProgress(`Reading page ${idx + 1} of ${files.length}...`);
+        // Small print needs a larger, sharper image than chat photos
+        const photo = await compressImage(await readAsDataUrl(file), 1600, 0.85);
+        firstPhoto = firstPhoto || photo;
+        const transcribed = await transcribeManualPage(photo);
+        if (transcribed) pages.push({ page: transcribed.printedPage ?? idx + 1, text: transcribed.text });
+      }
+
+      if (pages.length === 0) {
+        alert("Couldn't read any text from those photos. Try closer, well-lit shots of each page.");
+        return;
+      }
+      if (pages.length < files.length) {
+        alert(`${files.length - pages.length} of ${files.length} pages couldn't be read and were skipped.`);
+      }
+
+      setProgress('Saving manual...');
+      await saveManual('photos', pages, firstPhoto);
+    } catch (error) {
+      console.error('Error reading manual photos:', error);
+      alert('Could not read those photos. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleOpen = async (manual: Manual) => {
+    if (!manual.file_path) return;
+    const url = await getMediaUrl(manual.file_path);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  const handleDelete = async (manual: Manual) => {
+    if (!confirm(`Delete ${manual.title}?`)) return;
+    if (await deleteManual(manual)) setManuals(prev => prev.filter(item => item.id !== manual.id));
+  };
+
+  return (
+    <div>
+      <h4 className="font-semibold text-orange-300 flex items-center gap-2 mb-2">
+        <BookOpen size={16} /> Manuals
+      </h4>
+
+      {manuals.length === 0 && (
+        <p className="text-sm text-slate-500 mb-2">Add the owner's manual and Issue Help will answer from it, citing pages.</p>
+      )}
+
+      <ul className="space-y-2 mb-3">
+        {manuals.map(manual => (
+          <li key={manual.id} className="bg-slate-900 rounded-lg px-3 py-2 flex items-center gap-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="text-white truncate">{manual.title}</p>
+              <p className="text-xs text-slate-500">
+                {manual.page_count} page{manual.page_count === 1 ? '' : 's'} · {manual.source === 'pdf' ? 'PDF' : 'photos'}
+              </p>
+            </div>
+            {manual.file_path && (
+              <button
+                onClick={() => handleOpen(manual)}
+                className="p-1 text-slate-400 hover:text-white transition-colors"
+                title="Open"
+              >
+                <ExternalLink size={14} />
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(manual)}
+              className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+              title="Delete manual"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {progress ? (
+        <p className="flex items-center gap-2 text-sm text-slate-300">
+          <Loader2 className="w-4 h-4 animate-spin" /> {progress}
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={defaultTitle ? `${defaultTitle} manual` : 'Manual title'}
+            className="flex-1 min-w-[10rem] px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-orange-500"
+          />
+          <button
+            onClick={() => pdfInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-orange-300 transition-colors"
+          >
+            <FileUp size={14} /> PDF
+          </button>
+          <button
+            onClick={() => photoInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-orange-300 transition-colors"
+          >
+            <Camera size={14} /> Page photos
+          </button>
+          <input ref={pdfInputRef} type="file" accept="application/pdf" onChange={handlePdfSelected} className="hidden" />
+          <input ref={photoInputRef} type="file" accept="image/*" multiple onChange={handlePhotosSelected} className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -416,6 +416,12 @@ export default function PartsManager() {
                   </div>
 
                   <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400">
+                    {(part.modelNumber || part.dimensions) && (
+                      <span className="font-mono text-slate-300">
+                        {[part.brand, part.modelNumber, part.dimensions].filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+
                     {part.estimatedCost && (
                       <span className="flex items-center gap-1">
                         <span className="text-green-400 font-medium">${part.estimatedCost}</span>
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { Volume2 } from 'lucide-react';
+import { getMediaUrl } from '../services/mediaService';
+
+interface RepairAudioClipsProps {
+  paths: string[];
+}
+
+/**
+ * Playable audio clips stored with a saved repair
+ * Storage is private, so each clip gets a short-lived signed URL when shown
+ */
+export default function RepairAudioClips({ paths }: RepairAudioClipsProps) {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(paths.map(getMediaUrl)).then(results => {
+      if (!cancelled) setUrls(results.filter((url): url is string => !!url));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paths]);
+
+  if (urls.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Volume2 className="w-4 h-4 text-purple-400" />
+        <h4 className="font-semibold text-purple-400 text-sm">
+          Recorded Sounds ({urls.length})
+        </h4>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {urls.map(url => (
+          <audio key={url} controls src={url} className="h-10" />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef } from 'react';
+import { Camera, Loader2, BadgeCheck, AlertTriangle } from 'lucide-react';
+import { verifyRepairFix } from '../services/geminiService';
+import { compressImage } from '../services/imageMemoryService';
+import { getMediaUrl } from '../services/mediaService';
+import { recordRepairVerification, type SavedRepair } from '../services/repairService';
+import { loadBeforePhoto } from '../services/repairVerificationService';
+
+interface RepairVerificationProps {
+  repair: SavedRepair;
+  onVerified: (repair: SavedRepair) => void;
+}
+
+/**
+ * "Verify fix" for a saved repair
+ * Sends an after-photo (and the first photo from the diagnosis, if any) to the AI,
+ * then shows the latest verdict with the before/after photos side by side.
+ */
+export default function RepairVerification({ repair, onVerified }: RepairVerificationProps) {
+  const [verifying, setVerifying] = useState(false);
+  const [photoUrls, setPhotoUrls] = useState<{ before: string | null; after: string | null }>({ before: null, after: null });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const latest = repair.verifications?.[repair.verifications.length - 1];
+
+  // Storage is private, so the stored photos get short-lived signed URLs when shown
+  useEffect(() => {
+    let cancelled = false;
+    if (!latest) return;
+
+    Promise.all([
+      latest.before_image ? getMediaUrl(latest.before_image) : Promise.resolve(null),
+      latest.after_image ? getMediaUrl(latest.after_image) : Promise.resolve(null)
+    ]).then(([before, after]) => {
+      if (!cancelled) setPhotoUrls({ before, after });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latest]);
+
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setVerifying(true);
+    try {
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read photo'));
+        reader.readAsDataURL(file);
+      });
+      const after = await compressImage(dataUrl, 1024, 0.7);
+      const before = await loadBeforePhoto(repair.session_id);
+
+      const result = await verifyRepairFix(repair, after, before);
+      if (!result) {
+        alert("Couldn't check your photo right now. Please try again.");
+        return;
+      }
+
+      const updated = await recordRepairVerification(repair, result, { before, after });
+      if (updated) onVerified(updated);
+    } catch (error) {
+      console.error('Error verifying repair:', error);
+      alert('Could not read that photo. Please try another one.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handlePhotoSelected}
+        className="hidden"
+      />
+
+      {latest && (
+        <div className={`rounded-lg border p-4 mb-3 ${
+          latest.verdict === 'pass' ? 'bg-green-900/20 border-green-700' : 'bg-yellow-900/20 border-yellow-600/50'
+        }`}>
+          <div className="flex items-center gap-2 mb-2">
+            {latest.verdict === 'pass' ? (
+              <BadgeCheck className="w-5 h-5 text-green-400" />
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            )}
+            <h4 className={`font-semibold text-sm ${latest.verdict === 'pass' ? 'text-green-400' : 'text-yellow-400'}`}>
+              {latest.verdict === 'pass' ? 'Fix verified' : 'Fix needs another look'}
+            </h4>
+            <span className="text-xs text-slate-500 ml-auto">
+              {new Date(latest.verified_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </span>
+          </div>
+
+          {(photoUrls.before || photoUrls.after) && (
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              {(['before', 'after'] as const).map(label => (
+                <div key={label}>
+                  <p className="text-xs text-slate-400 mb-1 capitalize">{label}</p>
+                  {photoUrls[label] ? (
+                    <img src={photoUrls[label]!} alt={`${label} the repair`} className="w-full h-32 object-cover rounded-lg" />
+                  ) : (
+                    <div className="w-full h-32 rounded-lg bg-slate-900 flex items-center justify-center text-xs text-slate-500">
+                      No photo
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-slate-300 text-sm">{latest.summary}</p>
+          {latest.verdict === 'concern' && latest.suggestions.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {latest.suggestions.map((suggestion, idx) => (
+                <li key={idx} className="text-slate-300 text-sm flex items-start gap-2">
+                  <span className="text-yellow-400">•</span>
+                  <span>{suggestion}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={verifying}
+        className="flex items-center gap-2 bg-slate-900 hover:bg-slate-700 disabled:text-slate-500 text-orange-300 border border-slate-700 px-4 py-2 rounded-lg text-sm font-semibold transition-colors"
+      >
+        {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+        {verifying ? 'Checking your fix...' : latest ? 'Verify again with a new photo' : 'Verify fix with an after-photo'}
+      </button>
+    </div>
+  );
+}
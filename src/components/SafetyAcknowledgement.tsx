@@ -0,0 +1,41 @@
+import { useState } from 'react';
+
+interface SafetyAcknowledgementProps {
+  /** Record the acknowledgement on the diagnosis or repair */
+  onAcknowledge: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Acknowledgement gate shown in place of a high-risk repair's steps (see safetyService.stepsLocked)
+ */
+export default function SafetyAcknowledgement({ onAcknowledge, disabled = false, className = '' }: SafetyAcknowledgementProps) {
+  const [checked, setChecked] = useState(false);
+
+  return (
+    <div className={`${className} bg-slate-900/70 rounded-lg p-4 border border-red-600/50`}>
+      <p className="text-white font-semibold mb-2">Repair steps are hidden for this high-risk repair</p>
+      <label className="flex items-start gap-2 text-sm text-slate-300 mb-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => setChecked(e.target.checked)}
+          className="mt-1"
+        />
+        I understand the risks above, will wear the listed protection, and will complete the shut-off steps first.
+        I know a licensed professional is the safer choice.
+      </label>
+      <button
+        onClick={() => {
+          onAcknowledge();
+          setChecked(false);
+        }}
+        disabled={!checked || disabled}
+        className="bg-red-600 hover:bg-red-500 disabled:bg-slate-700 disabled:text-slate-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+      >
+        Show repair steps
+      </button>
+    </div>
+  );
+}
@@ -1,10 +1,25 @@
 import { useState, useEffect } from 'react';
-import { getSavedRepairs, deleteRepair, SavedRepair } from '../services/repairService';
-import { History, Trash2, Wrench, ListChecks } from 'lucide-react';
+import { getSavedRepairs, deleteRepair, saveRepairSafetyAcknowledgement, SavedRepair } from '../services/repairService';
+import { History, Trash2, Wrench, ListChecks, ShieldAlert, MessageSquare, PlayCircle, HelpCircle, Lightbulb } from 'lucide-react';
+import { HAZARD_LABELS, stepsLocked } from '../services/safetyService';
+import { completedStepCount, type RepairProgress } from '../services/guidedRepairService';
+import RepairAudioClips from './RepairAudioClips';
+import GuidedRepair from './GuidedRepair';
+import RepairVerification from './RepairVerification';
+import ManualLibrary from './ManualLibrary';
+import CostEstimatePanel from './CostEstimatePanel';
+import TutorialLinks from './TutorialLinks';
+import SafetyAcknowledgement from './SafetyAcknowledgement';
+import { setActiveSessionId } from '../services/diagnosisSessionService';
 
-export default function SavedRepairs() {
+interface SavedRepairsProps {
+  onViewChange?: (view: string) => void;
+}
+
+export default function SavedRepairs({ onViewChange }: SavedRepairsProps) {
   const [repairs, setRepairs] = useState<SavedRepair[]>([]);
   const [loading, setLoading] = useState(true);
+  const [guidedRepairId, setGuidedRepairId] = useState<string | null>(null);
 
   useEffect(() => {
     loadRepairs();
@@ -36,6 +51,33 @@ export default function SavedRepairs() {
     }
   };
 
+  const updateProgress = (repairId: string, progress: RepairProgress) => {
+    setRepairs(prev => prev.map(r => (r.id === repairId ? { ...r, progress } : r)));
+  };
+
+  const updateRepair = (updated: SavedRepair) => {
+    setRepairs(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  const acknowledgeSafety = (repairId: string) => {
+    const acknowledgedAt = new Date().toISOString();
+    setRepairs(prev => prev.map(r => (r.id === repairId ? { ...r, safety_acknowledged_at: acknowledgedAt } : r)));
+    saveRepairSafetyAcknowledgement(repairId, acknowledgedAt);
+  };
+
+  /**
+   * High-risk repairs keep their steps (list and guided mode) hidden until the risks are acknowledged
+   */
+  const repairStepsLocked = (repair: SavedRepair) => stepsLocked(
+    { severity: repair.hazard_severity || 'low', hazards: repair.hazard_tags || [] },
+    repair.safety_acknowledged_at
+  );
+
+  const openConversation = (sessionId: string) => {
+    setActiveSessionId(sessionId);
+    onViewChange?.('scanner');
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -76,7 +118,37 @@ export default function SavedRepairs() {
                 <div className="flex-1">
                   <h3 className="text-xl font-bold text-white mb-2">
                     {repair.title}
+                    {repair.difficulty && (
+                      <span className="ml-2 align-middle text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-900 text-orange-300 border border-orange-500/40">
+                        {repair.difficulty}
+                      </span>
+                    )}
+                    {repair.status === 'resolved' ? (
+                      <span className="ml-2 align-middle text-xs font-semibold px-2 py-0.5 rounded-full bg-green-900/40 text-green-300 border border-green-600/50">
+                        Resolved
+                      </span>
+                    ) : repair.verifications && repair.verifications.length > 0 && (
+                      <span className="ml-2 align-middle text-xs font-semibold px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-300 border border-yellow-600/50">
+                        Reopened
+                      </span>
+                    )}
                   </h3>
+                  {repair.hazard_tags && repair.hazard_tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <ShieldAlert className="w-4 h-4 text-red-400" />
+                      {repair.hazard_tags.map(tag => (
+                        <span
+                          key={tag}
+                          className="text-xs px-2 py-0.5 rounded-full bg-red-900/40 text-red-300 border border-red-600/50"
+                        >
+                          {HAZARD_LABELS[tag] || tag}
+                        </span>
+                      ))}
+                      {repair.hazard_severity && (
+                        <span className="text-xs text-slate-400">Risk: {repair.hazard_severity}</span>
+                      )}
+                    </div>
+                  )}
                   <p className="text-slate-400 text-sm">
                     {new Date(repair.created_at).toLocaleDateString('en-US', {
                       year: 'numeric',
@@ -87,6 +159,15 @@ export default function SavedRepairs() {
                     })}
                   </p>
                 </div>
+                {repair.session_id && onViewChange && (
+                  <button
+                    onClick={() => openConversation(repair.session_id!)}
+                    className="text-slate-400 hover:text-orange-400 p-2 rounded-lg hover:bg-slate-900 transition-colors"
+                    title="Open the conversation that produced this repair"
+                  >
+                    <MessageSquare size={20} />
+                  </button>
+                )}
                 <button
                   onClick={() => handleDelete(repair.id)}
                   className="text-slate-400 hover:text-red-400 p-2 rounded-lg hover:bg-slate-900 transition-colors"
@@ -103,6 +184,26 @@ export default function SavedRepairs() {
                 </p>
               </div>
 
+              {/* Possible Causes */}
+              {repair.possible_causes && repair.possible_causes.length > 0 && (
+                <div className="mb-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <HelpCircle className="w-4 h-4 text-purple-400" />
+                    <h4 className="font-semibold text-purple-400 text-sm">Possible Causes</h4>
+                  </div>
+                  <ul className="space-y-1">
+                    {repair.possible_causes.map((cause, idx) => (
+                      <li key={idx} className="text-slate-300 text-sm flex items-start gap-2">
+                        <span className="text-purple-400">•</span>
+                        <span>{cause}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <CostEstimatePanel estimate={repair.cost_estimate} />
+
               {/* Parts, Tools, and Steps */}
               <div className="grid md:grid-cols-2 gap-4">
                 {/* Parts Needed */}
@@ -151,20 +252,86 @@ export default function SavedRepairs() {
                 <div className="mt-4">
                   <div className="flex items-center gap-2 mb-2">
                     <ListChecks className="w-4 h-4 text-orange-400" />
-                    <h4 className="font-semibold text-orange-400 text-sm">
+                    <h4 className="font-semibold text-orange-400 text-sm flex-1">
                       Repair Steps ({repair.steps.length})
+                      {repair.progress && (
+                        <span className="ml-2 text-xs font-normal text-slate-400">
+                          {repair.progress.completed_at
+                            ? 'Completed'
+                            : `${completedStepCount(repair.progress)}/${repair.steps.length} done`}
+                        </span>
+                      )}
                     </h4>
+                    {guidedRepairId !== repair.id && !repairStepsLocked(repair) && (
+                      <button
+                        onClick={() => setGuidedRepairId(repair.id)}
+                        className="flex items-center gap-1 text-xs text-orange-300 hover:text-orange-200 transition-colors"
+                      >
+                        <PlayCircle className="w-4 h-4" />
+                        {repair.progress && !repair.progress.completed_at ? 'Resume guided repair' : 'Guided repair'}
+                      </button>
+                    )}
                   </div>
-                  <ol className="space-y-2">
-                    {repair.steps.map((step, idx) => (
-                      <li key={idx} className="text-slate-300 text-sm flex gap-2">
-                        <span className="text-orange-400 font-semibold">{idx + 1}.</span>
-                        <span>{step}</span>
+                  {repairStepsLocked(repair) ? (
+                    <SafetyAcknowledgement onAcknowledge={() => acknowledgeSafety(repair.id)} />
+                  ) : guidedRepairId === repair.id ? (
+                    <GuidedRepair
+                      guide={repair}
+                      repairId={repair.id}
+                      initialProgress={repair.progress || null}
+                      onProgressChange={(progress) => updateProgress(repair.id, progress)}
+                      onClose={() => setGuidedRepairId(null)}
+                    />
+                  ) : (
+                    <ol className="space-y-2">
+                      {repair.steps.map((step, idx) => (
+                        <li key={idx} className="text-slate-300 text-sm flex gap-2">
+                          <span className={`font-semibold ${repair.progress?.steps[idx]?.done ? 'text-green-400' : 'text-orange-400'}`}>
+                            {repair.progress?.steps[idx]?.done ? '✓' : `${idx + 1}.`}
+                          </span>
+                          <span>{step}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+
+              {/* Prevention Tips */}
+              {repair.prevention_tips && repair.prevention_tips.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Lightbulb className="w-4 h-4 text-yellow-400" />
+                    <h4 className="font-semibold text-yellow-400 text-sm">Prevention Tips</h4>
+                  </div>
+                  <ul className="space-y-1">
+                    {repair.prevention_tips.map((tip, idx) => (
+                      <li key={idx} className="text-slate-300 text-sm flex items-start gap-2">
+                        <span className="text-yellow-400">•</span>
+                        <span>{tip}</span>
                       </li>
                     ))}
-                  </ol>
+                  </ul>
                 </div>
               )}
+
+              {/* Tutorials */}
+              {repair.tutorial_search_term && (
+                <TutorialLinks searchTerm={repair.tutorial_search_term} className="mt-4" />
+              )}
+
+              {/* Verify Fix */}
+              <RepairVerification repair={repair} onVerified={updateRepair} />
+
+              {/* Owner's Manuals */}
+              <div className="mt-4">
+                <ManualLibrary repairId={repair.id} defaultTitle={repair.title} />
+              </div>
+
+              {/* Recorded Sounds */}
+              {repair.audio_clips && repair.audio_clips.length > 0 && (
+                <RepairAudioClips paths={repair.audio_clips} />
+              )}
             </div>
           ))}
         </div>
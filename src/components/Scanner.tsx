@@ -1,58 +1,66 @@
 import { useState, useRef, useEffect } from 'react';
-import { Camera, Send, X, Loader2, User, Bot, Image as ImageIcon } from 'lucide-react';
+import { Camera, Send, X, Loader2, User, Bot, Image as ImageIcon, Mic, Square, History, Plus, Trash2, Pencil, RefreshCw, ScanLine, BookOpen } from 'lucide-react';
 import Webcam from 'react-webcam';
-import { createChatSession } from '../services/geminiService';
-import { saveRepairDiagnosis } from '../services/repairService';
+import { createChatSession, estimateRepairCost, scanLabel, MAX_IMAGES_PER_MESSAGE } from '../services/geminiService';
+import { getDailyBudgetStatus, subscribeToScheduler, type DailyBudgetStatus } from '../services/requestScheduler';
+import { saveRepairCostEstimate, saveRepairDiagnosis, saveRepairSafetyAcknowledgement } from '../services/repairService';
+import { createGuideStreamParser, hideRepairSteps, parseDiagnosisText, type DiagnosisResult } from '../services/diagnosisService';
+import { fetchAsDataUrl, getMediaUrl } from '../services/mediaService';
+import { isAbortError } from '../services/retryPolicy';
+import {
+  CONFIRM_GUIDE_REPLY,
+  extractQuickReplies,
+  stripQuickReplyMarker,
+  type ChatPhase
+} from '../services/quickReplyService';
+import { classifyHazards, requiresAcknowledgement } from '../services/safetyService';
 import { addToIssueShoppingList } from '../services/shoppingListService';
+import { buildHomeContext, formatHomeContext, type HomeContext } from '../services/homeContextService';
+import { formatSkillProfile } from '../services/skillProfileService';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  EMPTY_MEMORY,
+  RECENT_MESSAGE_WINDOW,
+  toMemoryHistory,
+  type ConversationMemory
+} from '../services/conversationMemoryService';
+import {
+  annotateMessage,
+  compressImage,
+  createThumbnail,
+  describeImagesAsText,
+  imagesForMessage,
+  registerImages,
+  selectReferencedImages,
+  type SessionImage
+} from '../services/imageMemoryService';
+import {
+  deleteDiagnosisSession,
+  getActiveSessionId,
+  getDiagnosisSession,
+  getDiagnosisSessions,
+  resolveSessionMedia,
+  saveDiagnosisSession,
+  setActiveSessionId,
+  type DiagnosisSession,
+  type SessionMessage
+} from '../services/diagnosisSessionService';
+import {
+  MAX_CLIP_SECONDS,
+  isAudioRecordingSupported,
+  startAudioRecording,
+  type AudioClip,
+  type AudioRecorder
+} from '../services/audioService';
+import { formatLabelForChat, type LabelScan } from '../services/labelScanService';
+import { buildCostEstimate, costRegion } from '../services/costEstimateService';
+import { getUserParts } from '../services/partsService';
+import { citedManualPages, getManuals, searchManuals, type Manual, type ManualCitation } from '../services/manualService';
 import DiagnosisSummaryCard from './DiagnosisSummaryCard';
+import LabelScanCard from './LabelScanCard';
 
-/**
- * Compress image to reduce token usage
- * @param imageData Base64 image data
- * @param maxWidth Maximum width in pixels (default: 1024)
- * @param quality JPEG quality (0-1, default: 0.7)
- * @returns Promise<string> Compressed base64 image data
- */
-const compressImage = (imageData: string, maxWidth: number = 1024, quality: number = 0.7): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      // Calculate new dimensions
-      let { width, height } = img;
-      if (width > maxWidth) {
-        height = (height * maxWidth) / width;
-        width = maxWidth;
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-
-      // Draw and compress
-      ctx.drawImage(img, 0, 0, width, height);
-      const compressedData = canvas.toDataURL('image/jpeg', quality);
-
-      resolve(compressedData);
-    };
-
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = imageData;
-  });
-};
-
-interface Message {
-  role: 'user' | 'assistant';
-  text: string;
-  image?: string;
-  timestamp: number;
-}
+// Chat messages are stored as-is in the diagnosis session (images/audio as data or signed URLs)
+type Message = SessionMessage;
 
 // Multimodal history types for Gemini API
 interface MultimodalPart {
@@ -68,21 +76,69 @@ interface MultimodalMessage {
   parts: MultimodalPart[];
 }
 
-interface DiagnosisResult {
-  title: string;
-  summary: string;
-  parts_needed: string[];
-  tools_needed: string[];
-  steps: string[];
+/**
+ * Text-only turn for a message
+ * Registered photos are replaced by their numbered descriptions; other attachments are just noted
+ */
+const toTextTurn = (msg: Message, images: SessionImage[]): MultimodalMessage => {
+  const attachments = [
+    images.length > 0
+      ? describeImagesAsText(images)
+      : msg.images?.length ? `[attached ${msg.images.length} photo${msg.images.length > 1 ? 's' : ''}]` : '',
+    msg.referenced_images?.length ? `[referring to ${msg.referenced_images.map(n => `Photo ${n}`).join(', ')}]` : '',
+    msg.audio ? '[attached a sound clip]' : ''
+  ].filter(Boolean).join(' ');
+
+  return {
+    role: msg.role === 'user' ? 'user' : 'model',
+    parts: [{ text: [attachments, msg.text].filter(Boolean).join(' ') }]
+  };
+};
+
+/**
+ * Text-only turns for messages[from...], skipping empty ones
+ */
+const toTextTurns = (messages: Message[], registry: SessionImage[], from = 0): MultimodalMessage[] =>
+  messages
+    .map((msg, idx) => ({ msg, images: imagesForMessage(registry, idx) }))
+    .slice(from)
+    .filter(({ msg }) => msg.text.trim() || msg.images?.length || msg.audio)
+    .map(({ msg, images }) => toTextTurn(msg, images));
+
+const PHASE_STEPS: Array<{ phase: ChatPhase; label: string }> = [
+  { phase: 'questions', label: 'Questions' },
+  { phase: 'confirmation', label: 'Confirm' },
+  { phase: 'guide', label: 'Repair guide' }
+];
+
+/**
+ * Everything needed to (re)generate the reply to one user message
+ */
+interface ReplyRequest {
+  /** Conversation before the user message */
+  baseMessages: Message[];
+  userMessage: Message;
+  /** The message's own photos as data URLs */
+  images: string[];
+  audio?: string;
+  /** Photo registry including this message's photos */
+  registry: SessionImage[];
+  /** Summary covering no more than baseMessages */
+  memory: ConversationMemory;
 }
 
 export default function Scanner() {
+  const { profile } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImages, setSelectedImages] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  // Saving a repair is separate from loading, which swaps Send for Stop
+  const [saving, setSaving] = useState(false);
   const [isThinking, setIsThinking] = useState(false); // Robust debouncing state
   const [diagnosisResult, setDiagnosisResult] = useState<DiagnosisResult | null>(null);
+  // Guide as it streams in, previewed in the summary card until the report is generated
+  const [liveGuide, setLiveGuide] = useState<DiagnosisResult | null>(null);
   const [savedRepairId, setSavedRepairId] = useState<string | null>(null);
   const [showDiagnosisCard, setShowDiagnosisCard] = useState(false);
   const [chatDisabled, setChatDisabled] = useState(false);
@@ -93,158 +149,332 @@ export default function Scanner() {
   const webcamRef = useRef<Webcam>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const chatSessionRef = useRef(createChatSession());
-  const lastRequestTime = useRef<number>(0);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [aiBudget, setAiBudget] = useState<DailyBudgetStatus>(getDailyBudgetStatus);
+  const [homeContext, setHomeContext] = useState<HomeContext | null>(null);
+  const [selectedAudio, setSelectedAudio] = useState<AudioClip | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionCreatedAt = useRef<string>(new Date().toISOString());
+  const [showSessions, setShowSessions] = useState(false);
+  const [sessions, setSessions] = useState<DiagnosisSession[]>([]);
+  const justResumed = useRef(false);
+  const [memory, setMemory] = useState<ConversationMemory>(EMPTY_MEMORY);
+  const [sessionImages, setSessionImages] = useState<SessionImage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  // Label scan mode - reads a rating plate or label instead of sending it to the chat
+  const [labelScan, setLabelScan] = useState<{ image: string; scan: LabelScan | null } | null>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  // Owner's manuals searched for passages to ground each reply in
+  const [manuals, setManuals] = useState<Manual[]>([]);
+  // Cost estimate runs after the guide is shown; the repair row gets it once both exist
+  const [estimatingCost, setEstimatingCost] = useState(false);
+  const [costEstimateFailed, setCostEstimateFailed] = useState(false);
+  const savedCostEstimateRef = useRef<string | null>(null);
+  // Hypothesis whose parts and steps are being regenerated
+  const [switchingHypothesis, setSwitchingHypothesis] = useState<number | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Seed the chat session with the user's home profile, skill level, tools and recent repairs
+  useEffect(() => {
+    let cancelled = false;
+
+    buildHomeContext(profile)
+      .then(context => {
+        if (cancelled) return;
+        setHomeContext(context);
+        chatSessionRef.current = createChatSession({
+          homeContext: formatHomeContext(context),
+          skillProfile: formatSkillProfile(profile),
+          yearBuilt: context.yearBuilt
+        });
+      })
+      .catch(error => console.error('Failed to load home context:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+
+  // Load the manual library, and reload it when a manual is added or deleted elsewhere
+  useEffect(() => {
+    let cancelled = false;
+    const loadManuals = () => getManuals().then(loaded => {
+      if (!cancelled) setManuals(loaded);
+    });
+
+    loadManuals();
+    window.addEventListener('manualSaved', loadManuals);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('manualSaved', loadManuals);
+    };
+  }, [profile]);
+
+  // Reopen the conversation that was active before navigating away
+  useEffect(() => {
+    const activeId = getActiveSessionId();
+    if (!activeId) return;
+
+    getDiagnosisSession(activeId).then(session => {
+      if (session) resumeSession(session);
+    });
+  }, []);
+
+  // Autosave the conversation after each completed turn, diagnosis or repair save
+  useEffect(() => {
+    if (!sessionId || loading || messages.length === 0) return;
+    // Opening a conversation is not a change - don't bump it to the top of the list
+    if (justResumed.current) {
+      justResumed.current = false;
+      return;
+    }
+
+    const firstUserText = messages.find(msg => msg.role === 'user' && msg.text.trim())?.text.trim();
+    saveDiagnosisSession({
+      id: sessionId,
+      title: diagnosisResult?.title || firstUserText?.slice(0, 60) || 'Photo diagnosis',
+      messages,
+      diagnosis: diagnosisResult,
+      memory,
+      images: sessionImages,
+      repair_id: savedRepairId,
+      created_at: sessionCreatedAt.current
+    });
+  }, [sessionId, messages, diagnosisResult, memory, sessionImages, savedRepairId, loading]);
+
+  // Count recording time and stop at the clip limit
+  useEffect(() => {
+    if (recordingSeconds === null) return;
+    if (recordingSeconds >= MAX_CLIP_SECONDS) {
+      stopRecording();
+      return;
+    }
+    const timer = setTimeout(() => setRecordingSeconds(prev => (prev === null ? null : prev + 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [recordingSeconds]);
+
+  // Release the microphone if the user leaves mid-recording
+  useEffect(() => {
+    return () => recorderRef.current?.cancel();
+  }, []);
+
+  // Keep the daily AI budget indicator current
+  useEffect(() => {
+    return subscribeToScheduler(event => {
+      if (event.type === 'budget-changed') setAiBudget(event.budget);
+    });
+  }, []);
+
   /**
    * Convert message history to Gemini multimodal format
+   * The rolling summary carries everything older; only the last few messages are sent verbatim
    * CRITICAL: Only sends text history to avoid token limits - NEVER sends images from history
+   * (photos appear as their registry descriptions; referenced ones are re-attached to the new turn)
    */
-  const buildMultimodalHistory = (): MultimodalMessage[] => {
-    // Get last 4 messages (2 exchanges) - VERY limited to stay under token limits
-    const recentMessages = messages.slice(-4);
+  const buildMultimodalHistory = (
+    baseMessages: Message[],
+    registry: SessionImage[],
+    baseMemory: ConversationMemory
+  ): MultimodalMessage[] => {
+    const firstRecent = Math.max(0, baseMessages.length - RECENT_MESSAGE_WINDOW);
 
-    const history: MultimodalMessage[] = [];
+    const history: MultimodalMessage[] = [...toMemoryHistory(baseMemory)];
 
-    for (const msg of recentMessages) {
+    baseMessages.slice(firstRecent).forEach((msg, offset) => {
+      const images = imagesForMessage(registry, firstRecent + offset);
       // ONLY include text - NEVER include images from history to avoid token explosion
-      if (msg.text.trim()) {
-        history.push({
-          role: msg.role === 'user' ? 'user' : 'model',
-          parts: [{ text: msg.text }]
-        });
+      if (msg.text.trim() || images.length > 0) {
+        history.push(toTextTurn(msg, images));
       }
-    }
+    });
 
     return history;
   };
 
+  /**
+   * Fold the finished turn (and anything else not yet summarized) into the rolling summary
+   * Runs in the background; a slower, older update never overwrites a newer one
+   */
+  const refreshMemory = (allMessages: Message[], registry: SessionImage[], baseMemory: ConversationMemory) => {
+    const turns = toTextTurns(allMessages, registry, baseMemory.updated_through);
+    if (turns.length === 0) return;
+
+    chatSessionRef.current
+      .updateMemory(baseMemory, turns, allMessages.length)
+      .then(updated => setMemory(prev => (updated.updated_through >= prev.updated_through ? updated : prev)));
+  };
+
 
   /**
-   * Extract and parse structured diagnosis from AI response
-   * Parses the formatted text output (IDENTIFIED ISSUE, etc.), not JSON
-   * Returns: { cleanedText, diagnosis }
+   * Add photos to the pending message, up to MAX_IMAGES_PER_MESSAGE
    */
-  const extractDiagnosis = (responseText: string): { cleanedText: string; diagnosis: DiagnosisResult | null } => {
-    console.log('🔍 Extracting diagnosis from structured text...');
-    console.log('Full response:', responseText);
-
-    const diagnosis: DiagnosisResult = {
-      title: '',
-      summary: '',
-      parts_needed: [],
-      tools_needed: [],
-      steps: []
-    };
+  const addSelectedImages = (images: string[]) => {
+    setSelectedImages(prev => [...prev, ...images].slice(0, MAX_IMAGES_PER_MESSAGE));
+  };
 
-    // Extract title from IDENTIFIED ISSUE
-    const titleMatch = responseText.match(/\*{0,2}IDENTIFIED ISSUE:\*{0,2}\s*([^\n]+)/i);
-    if (titleMatch) {
-      diagnosis.title = titleMatch[1].trim();
-      console.log('📝 Title extracted:', diagnosis.title);
-    }
+  const removeSelectedImage = (index: number) => {
+    setSelectedImages(prev => prev.filter((_, i) => i !== index));
+  };
 
-    // Extract summary from WHAT'S WRONG
-    const summaryMatch = responseText.match(/\*{0,2}WHAT'S WRONG:\*{0,2}[\s\S]*?(?=\*{0,2}DIFFICULTY:\*{0,2}|\*{0,2}REQUIRED PARTS:\*{0,2}|\*{0,2}REQUIRED TOOLS:\*{0,2}|\*{0,2}REPAIR STEPS:\*{0,2}|$)/i);
-    if (summaryMatch) {
-      diagnosis.summary = summaryMatch[0].replace(/\*{0,2}WHAT'S WRONG:\*{0,2}/i, '').trim();
-      console.log('📝 Summary extracted:', diagnosis.summary);
-    }
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_IMAGES_PER_MESSAGE - selectedImages.length);
+    files.forEach(file => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        addSelectedImages([reader.result as string]);
+      };
+      reader.readAsDataURL(file);
+    });
 
-    // Extract parts from REQUIRED PARTS section
-    const partsMatch = responseText.match(/\*{0,2}REQUIRED PARTS:\*{0,2}[\s\S]*?(?=\*{0,2}REQUIRED TOOLS:\*{0,2}|\*{0,2}REPAIR STEPS:\*{0,2}|\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
-    if (partsMatch) {
-      const lines = partsMatch[0].split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-          const item = trimmed.replace(/^[-*]\s+/, '').trim();
-          if (item && item.length > 1 && item.length < 100) {
-            diagnosis.parts_needed.push(item);
-          }
-        }
-      }
-      console.log('📦 Parts extracted:', diagnosis.parts_needed);
+    // Allow picking the same file again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
+  };
 
-    // Extract tools from REQUIRED TOOLS section
-    const toolsMatch = responseText.match(/\*{0,2}REQUIRED TOOLS:\*{0,2}[\s\S]*?(?=\*{0,2}REPAIR STEPS:\*{0,2}|\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
-    if (toolsMatch) {
-      const lines = toolsMatch[0].split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-          const item = trimmed.replace(/^[-*]\s+/, '').trim();
-          if (item && item.length > 1 && item.length < 100) {
-            diagnosis.tools_needed.push(item);
-          }
-        }
+  const capturePhoto = () => {
+    const imageSrc = webcamRef.current?.getScreenshot();
+    if (imageSrc) {
+      addSelectedImages([imageSrc]);
+      // Stay open for the next shot (wide, close-up, model plate) until the cap is reached
+      if (selectedImages.length + 1 >= MAX_IMAGES_PER_MESSAGE) {
+        setShowCamera(false);
       }
-      console.log('🔧 Tools extracted:', diagnosis.tools_needed);
     }
+  };
 
-    // Extract steps from REPAIR STEPS section
-    const stepsMatch = responseText.match(/\*{0,2}REPAIR STEPS:\*{0,2}[\s\S]*?(?=\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
-    if (stepsMatch) {
-      const lines = stepsMatch[0].split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        const stepMatch = trimmed.match(/^\d+\.\s+(.+)/);
-        if (stepMatch) {
-          diagnosis.steps.push(stepMatch[1].trim());
-        }
+  const handleLabelSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+      // Keep more detail than chat photos so small print stays legible
+      const image = await compressImage(dataUrl, 1600, 0.85);
+      setLabelScan({ image, scan: null });
+      setTimeout(() => chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 0);
+
+      const scan = await scanLabel(image);
+      if (!scan) {
+        setLabelScan(null);
+        alert("Couldn't read that label. Try a closer, well-lit photo taken straight on.");
+        return;
       }
-      console.log('📋 Steps extracted:', diagnosis.steps);
+      setLabelScan(prev => (prev?.image === image ? { image, scan } : prev));
+    } catch (error) {
+      console.error('Error scanning label:', error);
+      setLabelScan(null);
+      alert('Could not read that photo. Please try another one.');
     }
+  };
 
-    // Find where structured content ends (before JSON if present)
-    let cutoffIndex = responseText.length;
-
-    // Look for "JSON" keyword or JSON object start
-    const jsonKeywordIndex = responseText.search(/\bJSON\b/i);
-    if (jsonKeywordIndex !== -1) {
-      cutoffIndex = jsonKeywordIndex;
-    } else {
-      // Look for JSON object start
-      const jsonStartIndex = responseText.search(/\{[\s\S]*?"FINAL_DIAGNOSIS"/i);
-      if (jsonStartIndex !== -1) {
-        cutoffIndex = jsonStartIndex;
-      }
+  const addLabelToInput = (scan: LabelScan) => {
+    const summary = formatLabelForChat(scan);
+    setInputText(prev => (prev.trim() ? `${prev.trim()}\n${summary}` : summary));
+    setLabelScan(null);
+  };
+
+  const startRecording = async () => {
+    try {
+      recorderRef.current = await startAudioRecording();
+      setSelectedAudio(null);
+      setRecordingSeconds(0);
+    } catch (error) {
+      console.error('Could not start audio recording:', error);
+      alert('Microphone access is needed to record a sound. Please allow it in your browser settings.');
     }
+  };
 
-    const cleanedText = responseText.substring(0, cutoffIndex).trim();
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setRecordingSeconds(null);
+    if (!recorder) return;
 
-    console.log('✅ Diagnosis extracted from structured text');
-    console.log('Cleaned text length:', cleanedText.length);
-    console.log('Complete diagnosis object:', diagnosis);
+    try {
+      const clip = await recorder.stop();
+      console.log(`Audio clip recorded: ${clip.durationSeconds.toFixed(1)}s`);
+      setSelectedAudio(clip);
+    } catch (error) {
+      console.error('Failed to process audio clip:', error);
+    }
+  };
 
-    return {
-      cleanedText,
-      diagnosis: diagnosis.title ? diagnosis : null
-    };
+  /**
+   * Load a saved conversation into the chat
+   */
+  const resumeSession = async (session: DiagnosisSession) => {
+    const resolvedMessages = await resolveSessionMedia(session.messages);
+
+    justResumed.current = true;
+    setSessionId(session.id);
+    setActiveSessionId(session.id);
+    sessionCreatedAt.current = session.created_at;
+    setMessages(resolvedMessages);
+    setDiagnosisResult(session.diagnosis);
+    setLiveGuide(null);
+    setEditingIndex(null);
+    setMemory(session.memory || EMPTY_MEMORY);
+    setSessionImages(session.images || []);
+    setSavedRepairId(session.repair_id);
+    setShowDiagnosisCard(false);
+    setChatDisabled(false);
+    setPartsAdded([]);
+    setPartsQuantities(
+      Object.fromEntries(
+        [...(session.diagnosis?.parts_needed || []), ...(session.diagnosis?.tools_needed || [])].map(item => [item, 1])
+      )
+    );
+    setShowSessions(false);
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  /**
+   * Start a fresh conversation (the current one stays in the session list)
+   */
+  const startNewConversation = () => {
+    setSessionId(null);
+    setActiveSessionId(null);
+    setMessages([]);
+    setDiagnosisResult(null);
+    setLiveGuide(null);
+    setEditingIndex(null);
+    setMemory(EMPTY_MEMORY);
+    setSessionImages([]);
+    setSavedRepairId(null);
+    setShowDiagnosisCard(false);
+    setChatDisabled(false);
+    setPartsAdded([]);
+    setPartsQuantities({});
+    setShowSessions(false);
   };
 
-  const capturePhoto = () => {
-    const imageSrc = webcamRef.current?.getScreenshot();
-    if (imageSrc) {
-      setSelectedImage(imageSrc);
-      setShowCamera(false);
+  const toggleSessions = async () => {
+    if (!showSessions) {
+      setSessions(await getDiagnosisSessions());
     }
+    setShowSessions(prev => !prev);
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (!confirm('Delete this conversation?')) return;
+
+    await deleteDiagnosisSession(id);
+    setSessions(prev => prev.filter(session => session.id !== id));
+    if (id === sessionId) startNewConversation();
   };
 
   const removePart = (partToRemove: string) => {
@@ -294,60 +524,92 @@ export default function Scanner() {
     }, 100);
   };
 
-  const handleSend = async () => {
-    if (!inputText.trim() && !selectedImage) return;
+  /**
+   * Send the typed message, or a tapped quick reply
+   */
+  const handleSend = async (quickReply?: string) => {
+    const messageText = (quickReply ?? inputText).trim();
+    if (!messageText && selectedImages.length === 0 && !selectedAudio) return;
     if (loading || isThinking) return; // Robust debouncing
 
     // Set thinking state immediately to prevent duplicate calls
     setIsThinking(true);
 
-    // Enforce minimum delay between requests (helps with rate limiting)
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastRequestTime.current;
-    const minDelay = 3000; // 3 seconds minimum between requests
-
-    if (timeSinceLastRequest < minDelay) {
-      const waitTime = minDelay - timeSinceLastRequest;
-      console.log(`Rate limiting: waiting ${waitTime}ms before next request`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+    // First message starts a new persisted conversation
+    if (!sessionId) {
+      const newSessionId = crypto.randomUUID();
+      sessionCreatedAt.current = new Date().toISOString();
+      setSessionId(newSessionId);
+      setActiveSessionId(newSessionId);
     }
 
-    lastRequestTime.current = Date.now();
-
-    const messageText = inputText.trim();
-    let messageImage = selectedImage;
-
-    // Compress image if present to reduce token usage
-    if (messageImage) {
-      try {
-        console.log('Compressing image...');
-        messageImage = await compressImage(messageImage, 1024, 0.7);
-        console.log('Image compressed successfully');
-      } catch (error) {
-        console.warn('Failed to compress image, using original:', error);
-        // Continue with original image if compression fails
-      }
+    // Compress each image to reduce token usage
+    const messageImages = await Promise.all(
+      selectedImages.map(async (image) => {
+        try {
+          return await compressImage(image, 1024, 0.7);
+        } catch (error) {
+          console.warn('Failed to compress image, using original:', error);
+          // Continue with original image if compression fails
+          return image;
+        }
+      })
+    );
+    if (messageImages.length > 0) {
+      console.log(`Compressed ${messageImages.length} image(s)`);
     }
 
+    // Register the new photos and pick earlier ones the user is pointing back at
+    const messageIndex = messages.length;
+    const thumbnails = await Promise.all(
+      messageImages.map(image => createThumbnail(image).catch(() => image))
+    );
+    const registry = registerImages(sessionImages, thumbnails, messageIndex);
+    const referencedImages = selectReferencedImages(
+      messageText,
+      sessionImages,
+      MAX_IMAGES_PER_MESSAGE - messageImages.length,
+      messageImages.length > 0
+    );
+    setSessionImages(registry);
+
     // Add user message
     const userMessage: Message = {
       role: 'user',
       text: messageText,
-      image: messageImage || undefined,
+      images: messageImages.length > 0 ? messageImages : undefined,
+      audio: selectedAudio?.dataUrl,
+      referenced_images: referencedImages.length > 0 ? referencedImages.map(image => image.number) : undefined,
       timestamp: Date.now(),
     };
+    const messageAudio = selectedAudio?.dataUrl;
 
-    setMessages(prev => [...prev, userMessage]);
-    
     // Clear inputs immediately
     setInputText('');
-    setSelectedImage(null);
+    setSelectedImages([]);
+    setSelectedAudio(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
 
-    // Get AI response with streaming
-    setLoading(true);
+    await streamReply({
+      baseMessages: messages,
+      userMessage,
+      images: messageImages,
+      audio: messageAudio,
+      registry,
+      memory
+    });
+  };
+
+  /**
+   * Stream the assistant's reply to a user message, then run the guide, safety and memory stages
+   * Shared by send, regenerate and edit-and-resend
+   */
+  const streamReply = async ({ baseMessages, userMessage, images, audio, registry, memory: baseMemory }: ReplyRequest) => {
+    const messageIndex = baseMessages.length;
+    const newImages = imagesForMessage(registry, messageIndex);
+    const referencedImages = registry.filter(image => userMessage.referenced_images?.includes(image.number));
 
     // Add placeholder AI message immediately
     const placeholderMessage: Message = {
@@ -355,47 +617,127 @@ export default function Scanner() {
       text: '',
       timestamp: Date.now(),
     };
-    setMessages(prev => [...prev, placeholderMessage]);
+    setMessages([...baseMessages, userMessage, placeholderMessage]);
+
+    // Get AI response with streaming
+    setIsThinking(true);
+    setLoading(true);
+    setLiveGuide(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let fullResponse = '';
+    // Whether the guide in this reply has its steps hidden in the chat bubble (rule-based until the safety stage runs)
+    let stepsLocked = false;
 
     try {
-      let fullResponse = '';
+      const guideParser = createGuideStreamParser();
+
+      const defaultPrompt = audio
+        ? 'Please listen to this sound and help me figure out what is causing it.'
+        : images.length > 1 ? 'Please analyze these images.' : 'Please analyze this image.';
+      const promptText = annotateMessage(userMessage.text || defaultPrompt, newImages, referencedImages);
+
+      // Manual passages matching this message and the conversation's opening question
+      const openingText = baseMessages.find(msg => msg.role === 'user')?.text || '';
+      const manualPassages = searchManuals(manuals, `${userMessage.text} ${openingText}`);
 
       // Build multimodal history for context (text-only to avoid token limits)
-      const multimodalHistory = buildMultimodalHistory();
+      const multimodalHistory = buildMultimodalHistory(baseMessages, registry, baseMemory);
       console.log('📝 Sending multimodal history:', multimodalHistory.length, 'messages');
 
-      // Update chat session with multimodal history
-      // Note: We need to create a new session with proper history
-      // The sendMessageStream will handle this internally
-
       // Stream the response chunks with multimodal history
+      // Requests are spaced by the shared scheduler; show our place in line while waiting
       const stream = chatSessionRef.current.sendMessageStream(
-        messageText || 'Please analyze this image.',
-        messageImage || undefined,
-        multimodalHistory
+        promptText,
+        [...images, ...referencedImages.map(image => image.thumbnail)],
+        multimodalHistory,
+        {
+          audioClip: audio,
+          manualPassages,
+          signal: controller.signal,
+          onQueuePosition: (position) => setQueuePosition(position > 0 ? position : null)
+        }
       );
 
       for await (const chunk of stream) {
         fullResponse += chunk;
+
+        // Fill the summary card as guide sections arrive; rule-based hazard checks gate the steps until the safety stage runs
+        const partialGuide = guideParser.push(chunk);
+        if (partialGuide) {
+          const safety = classifyHazards(partialGuide, homeContext?.yearBuilt);
+          stepsLocked = requiresAcknowledgement(safety);
+          setLiveGuide({ ...partialGuide, safety });
+        }
         
         // Update the last message (AI response) with accumulated text
         setMessages(prev => {
           const updated = [...prev];
           updated[updated.length - 1] = {
             ...updated[updated.length - 1],
-            text: fullResponse
+            text: stripQuickReplyMarker(fullResponse),
+            steps_locked: stepsLocked || undefined
           };
           return updated;
         });
       }
 
-      // After streaming completes, extract parts and diagnosis
-      const { cleanedText, diagnosis } = extractDiagnosis(fullResponse);
+      // After streaming completes, reconcile the live preview with a full parse of the reply
+      const { cleanedText, diagnosis: textDiagnosis } = guideParser.finish();
+      if (textDiagnosis) {
+        const safety = classifyHazards(textDiagnosis, homeContext?.yearBuilt);
+        stepsLocked = requiresAcknowledgement(safety);
+        setLiveGuide({ ...textDiagnosis, safety });
+      }
+
+      // Stop pressed while a guide stage ran - don't start the next one or surface a guide the user cancelled
+      const throwIfStopped = () => {
+        if (controller.signal.aborted) {
+          throw new DOMException('Request cancelled', 'AbortError');
+        }
+      };
+
+      // A guide is due when the reply's phase marker says so, or when it answers the "full guide?"
+      // confirmation without asking more questions - even if the text format drifted and the parser found nothing
+      const replyPhase = extractQuickReplies(cleanedText, !!textDiagnosis).quickReplies?.phase;
+      const previousPhase = baseMessages.filter(msg => msg.role === 'assistant').pop()?.quick_replies?.phase;
+      const guideDue = !!textDiagnosis
+        || replyPhase === 'guide'
+        || (previousPhase === 'confirmation' && replyPhase !== 'questions' && replyPhase !== 'confirmation');
+
+      // Ask for the schema-enforced guide; the text parse is only the fallback
+      let diagnosis: DiagnosisResult | null = null;
+      if (guideDue) {
+        throwIfStopped();
+        const finalGuide = await chatSessionRef.current.generateFinalGuide(
+          [
+            ...multimodalHistory,
+            { role: 'user', parts: [{ text: promptText }] },
+            { role: 'model', parts: [{ text: fullResponse }] }
+          ],
+          fullResponse,
+          controller.signal
+        );
+        diagnosis = finalGuide.diagnosis;
+        console.log(`Diagnosis source: ${finalGuide.source}`);
+
+        // Safety stage: hazard tags, PPE and shut-off steps before anything is shown
+        if (diagnosis) {
+          throwIfStopped();
+          diagnosis.safety = await chatSessionRef.current.assessSafety(diagnosis, controller.signal);
+          stepsLocked = requiresAcknowledgement(diagnosis.safety);
+        }
+
+        throwIfStopped();
+      }
 
       // Store diagnosis if found
+      setLiveGuide(diagnosis);
       if (diagnosis) {
         setDiagnosisResult(diagnosis);
         console.log('Diagnosis received:', diagnosis);
+        estimateCost(diagnosis);
 
         // Initialize quantities for parts and tools
         if (diagnosis.parts_needed.length > 0 || diagnosis.tools_needed.length > 0) {
@@ -413,17 +755,50 @@ export default function Scanner() {
         }
       }
 
-      // Update final message with cleaned text (JSON stripped out)
+      // Update final message with cleaned text (JSON and the quick-reply marker stripped out)
+      const { text: replyText, quickReplies } = extractQuickReplies(cleanedText, !!diagnosis);
+      const manualSources = citedManualPages(manualPassages, replyText);
       setMessages(prev => {
         const updated = [...prev];
         updated[updated.length - 1] = {
           ...updated[updated.length - 1],
-          text: cleanedText
+          text: replyText,
+          steps_locked: stepsLocked || undefined,
+          quick_replies: quickReplies || undefined,
+          manual_sources: manualSources.length > 0 ? manualSources : undefined
         };
         return updated;
       });
+
+      refreshMemory([...baseMessages, userMessage, { ...placeholderMessage, text: replyText }], registry, baseMemory);
+
+      // Describe the new photos in the background so later turns can carry them as text
+      if (newImages.some(image => !image.description)) {
+        chatSessionRef.current.describeImages(images).then(descriptions => {
+          setSessionImages(prev => prev.map(image => {
+            const position = newImages.findIndex(newImage => newImage.number === image.number);
+            return position >= 0 ? { ...image, description: descriptions[position] } : image;
+          }));
+        });
+      }
       
     } catch (error: any) {
+      setLiveGuide(null);
+
+      // Stopped by the user - keep whatever arrived so it can be read or regenerated
+      if (isAbortError(error)) {
+        setMessages(prev => {
+          const updated = [...prev];
+          updated[updated.length - 1] = {
+            ...updated[updated.length - 1],
+            text: stripQuickReplyMarker(fullResponse).trim(),
+            stopped: true
+          };
+          return updated;
+        });
+        return;
+      }
+
       console.error('Error getting AI response:', error);
 
       // Handle rate limit errors with better messaging
@@ -446,13 +821,137 @@ export default function Scanner() {
         return updated;
       });
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
       setIsThinking(false); // Clear thinking state
+      setQueuePosition(null);
+    }
+  };
+
+  /**
+   * Stop the reply that is currently generating
+   */
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Photos and sound of an earlier user message as data URLs, ready to send again
+   * Resumed conversations hold signed URLs; registry thumbnails cover photos that can't be fetched
+   */
+  const loadMessageMedia = async (msg: Message, messageIndex: number, registry: SessionImage[]) => {
+    const fetched = await Promise.all((msg.images || []).map(fetchAsDataUrl));
+    const images = fetched.every(image => image !== null)
+      ? fetched as string[]
+      : imagesForMessage(registry, messageIndex).map(image => image.thumbnail);
+    const audio = msg.audio ? (await fetchAsDataUrl(msg.audio)) || undefined : undefined;
+    return { images, audio };
+  };
+
+  /**
+   * Summary that covers no more than baseMessages
+   * After a regenerate or edit the current summary can include the turns being replaced, so it is rebuilt
+   */
+  const memoryFor = async (baseMessages: Message[], registry: SessionImage[]): Promise<ConversationMemory> => {
+    if (memory.updated_through <= baseMessages.length) return memory;
+    if (baseMessages.length <= RECENT_MESSAGE_WINDOW) return EMPTY_MEMORY;
+
+    return chatSessionRef.current.updateMemory(EMPTY_MEMORY, toTextTurns(baseMessages, registry), baseMessages.length);
+  };
+
+  /**
+   * Whether the current diagnosis came from one of the replies about to be replaced
+   */
+  const replacesDiagnosis = (baseMessages: Message[]) =>
+    messages
+      .slice(baseMessages.length)
+      .some(msg => msg.role === 'assistant' && parseDiagnosisText(msg.text).diagnosis);
+
+  /**
+   * Open a cited manual - PDFs at the cited page
+   */
+  const openManualCitation = async (citation: ManualCitation) => {
+    const manual = manuals.find(item => item.id === citation.manual_id);
+    if (!manual?.file_path) return;
+
+    const url = await getMediaUrl(manual.file_path);
+    if (url) window.open(manual.source === 'pdf' ? `${url}#page=${citation.page}` : url, '_blank', 'noopener,noreferrer');
+  };
+
+  /**
+   * Ask again for the last reply
+   */
+  const handleRegenerate = async () => {
+    const userIndex = messages.length - 2;
+    const userMessage = messages[userIndex];
+    if (loading || isThinking || userMessage?.role !== 'user') return;
+
+    setIsThinking(true);
+    try {
+      const baseMessages = messages.slice(0, userIndex);
+      if (replacesDiagnosis(baseMessages)) setDiagnosisResult(null);
+
+      const { images, audio } = await loadMessageMedia(userMessage, userIndex, sessionImages);
+      const baseMemory = await memoryFor(baseMessages, sessionImages);
+      setMemory(baseMemory);
+
+      await streamReply({ baseMessages, userMessage, images, audio, registry: sessionImages, memory: baseMemory });
+    } finally {
+      // Also cleared by streamReply; this covers a media or memory load that throws first
+      setIsThinking(false);
+    }
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setEditText(messages[index].text);
+  };
+
+  /**
+   * Resend an edited user message
+   * The conversation branches: the edit continues as a new session and the original stays in History
+   */
+  const handleEditResend = async () => {
+    if (editingIndex === null || loading || isThinking) return;
+    const original = messages[editingIndex];
+    const text = editText.trim();
+    if (!text && !original.images?.length && !original.audio) return;
+
+    setIsThinking(true);
+    setEditingIndex(null);
+
+    try {
+      const baseMessages = messages.slice(0, editingIndex);
+      const registry = sessionImages.filter(image => image.message_index <= editingIndex);
+      const ownImages = imagesForMessage(registry, editingIndex);
+      const referencedImages = selectReferencedImages(
+        text,
+        registry.filter(image => image.message_index < editingIndex),
+        MAX_IMAGES_PER_MESSAGE - ownImages.length,
+        ownImages.length > 0
+      );
+      const userMessage: Message = {
+        ...original,
+        text,
+        referenced_images: referencedImages.length > 0 ? referencedImages.map(image => image.number) : undefined,
+        timestamp: Date.now()
+      };
+
+      const branchId = crypto.randomUUID();
+      sessionCreatedAt.current = new Date().toISOString();
+      setSessionId(branchId);
+      setActiveSessionId(branchId);
+      setSavedRepairId(null);
+      if (replacesDiagnosis(baseMessages)) setDiagnosisResult(null);
+
+      const { images, audio } = await loadMessageMedia(original, editingIndex, registry);
+      const baseMemory = await memoryFor(baseMessages, registry);
+      setMemory(baseMemory);
+      setSessionImages(registry);
 
-      // Add extra cooldown period after request completion
-      setTimeout(() => {
-        // This provides additional rate limiting protection
-      }, 1000);
+      await streamReply({ baseMessages, userMessage, images, audio, registry, memory: baseMemory });
+    } finally {
+      setIsThinking(false);
     }
   };
 
@@ -463,26 +962,149 @@ export default function Scanner() {
     }
   };
 
-  const handleSaveDiagnosis = async () => {
-    if (!diagnosisResult) return;
+  /**
+   * Price the guide DIY versus pro in the background, using inventory prices and tools where known
+   * Never rejects - failures leave the guide without an estimate and show a note on the card
+   */
+  const estimateCost = async (diagnosis: DiagnosisResult) => {
+    setEstimatingCost(true);
+    setCostEstimateFailed(false);
+    try {
+      const region = costRegion(profile?.zipCode);
+      const [estimate, inventory] = await Promise.all([estimateRepairCost(diagnosis, region), getUserParts()]);
+      if (!estimate) {
+        setCostEstimateFailed(true);
+        return;
+      }
+
+      const costEstimate = buildCostEstimate(estimate, inventory, region);
+      // A newer guide may have replaced this one while the estimate ran
+      // (acknowledging its risks copies the diagnosis but keeps the same steps)
+      setDiagnosisResult(prev => (prev?.steps === diagnosis.steps ? { ...prev, cost_estimate: costEstimate } : prev));
+    } catch (error) {
+      console.error('Failed to estimate repair cost:', error);
+      setCostEstimateFailed(true);
+    } finally {
+      setEstimatingCost(false);
+    }
+  };
+
+  // An estimate that lands after the repair was saved is stored on the repair row
+  useEffect(() => {
+    const estimate = diagnosisResult?.cost_estimate;
+    if (!savedRepairId || !estimate) return;
+
+    const key = `${savedRepairId}:${estimate.estimated_at}`;
+    if (savedCostEstimateRef.current === key) return;
+    savedCostEstimateRef.current = key;
+    saveRepairCostEstimate(savedRepairId, estimate);
+  }, [savedRepairId, diagnosisResult]);
+
+  /**
+   * Unlock a high-risk guide's steps
+   * Stored on the diagnosis (saved with the session and the repair) and on the chat reply that carried it.
+   */
+  const acknowledgeSafety = () => {
+    const acknowledgedAt = new Date().toISOString();
+    const acknowledge = (guide: DiagnosisResult | null) => guide && { ...guide, safety_acknowledged_at: acknowledgedAt };
+    setDiagnosisResult(acknowledge);
+    setLiveGuide(acknowledge);
+
+    setMessages(prev => {
+      const replyIndex = prev.map(msg => !!msg.steps_locked).lastIndexOf(true);
+      if (replyIndex === -1) return prev;
+      const updated = [...prev];
+      updated[replyIndex] = { ...updated[replyIndex], steps_locked: undefined };
+      return updated;
+    });
+
+    if (savedRepairId) saveRepairSafetyAcknowledgement(savedRepairId, acknowledgedAt);
+  };
+
+  /**
+   * Rebuild parts and steps for another ranked cause, then rerun the safety and cost stages
+   */
+  const switchHypothesis = async (index: number) => {
+    if (!diagnosisResult || switchingHypothesis !== null) return;
+
+    // Stop cancels the switch like a reply
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setSwitchingHypothesis(index);
+    try {
+      const guide = await chatSessionRef.current.generateHypothesisGuide(
+        buildMultimodalHistory(messages, sessionImages, memory),
+        diagnosisResult,
+        index,
+        controller.signal
+      );
+      if (!guide) {
+        alert("Couldn't build a guide for that cause. Please try again.");
+        return;
+      }
+
+      guide.safety = await chatSessionRef.current.assessSafety(guide, controller.signal);
+      if (controller.signal.aborted) return;
+
+      // The new guide is gated on its own safety result - an acknowledgement of the previous cause doesn't carry over
+      const locked = requiresAcknowledgement(guide.safety);
+      setMessages(prev => {
+        const guideIndex = prev.map(msg => msg.role === 'assistant' && msg.quick_replies?.phase === 'guide').lastIndexOf(true);
+        if (guideIndex === -1) return prev;
+        const updated = [...prev];
+        updated[guideIndex] = { ...updated[guideIndex], steps_locked: locked || undefined };
+        return updated;
+      });
+
+      setDiagnosisResult(guide);
+      setLiveGuide(prev => prev && guide);
+      setPartsAdded([]);
+      setPartsQuantities(Object.fromEntries([...guide.parts_needed, ...guide.tools_needed].map(item => [item, 1])));
+      estimateCost(guide);
+
+      // The saved repair is for the previous cause - save the new guide as its own repair
+      if (savedRepairId) {
+        setSavedRepairId(null);
+        await handleSaveDiagnosis(guide);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      console.log('Hypothesis switch stopped by user');
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setSwitchingHypothesis(null);
+    }
+  };
+
+  const handleSaveDiagnosis = async (diagnosis: DiagnosisResult | null = diagnosisResult) => {
+    if (!diagnosis || saving) return;
     
-    setLoading(true);
+    setSaving(true);
     try {
-      const savedRepair = await saveRepairDiagnosis(diagnosisResult);
+      // Keep any recorded noises with the repair
+      const audioClips = messages.filter(msg => msg.audio).map(msg => msg.audio as string);
+      const savedRepair = await saveRepairDiagnosis(diagnosis, { audioClips, sessionId: sessionId || undefined });
       
       if (savedRepair) {
         console.log('Repair saved successfully:', savedRepair);
         // Store the repair ID for shopping list linking
         setSavedRepairId(savedRepair.id);
+        if (diagnosis.cost_estimate) {
+          savedCostEstimateRef.current = `${savedRepair.id}:${diagnosis.cost_estimate.estimated_at}`;
+        }
       }
     } catch (error) {
       console.error('Failed to save repair:', error);
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
 
+  // Phase marker and chips come from the latest replies
+  const currentPhase = [...messages].reverse().find(msg => msg.quick_replies)?.quick_replies?.phase;
+  const lastQuickReplies = messages[messages.length - 1]?.quick_replies;
+
   return (
     <div className="flex flex-col h-[calc(100vh-120px)] bg-slate-900 relative">
       {/* Camera Modal */}
@@ -507,14 +1129,14 @@ export default function Scanner() {
               onClick={() => setShowCamera(false)}
               className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors"
             >
-              Cancel
+              {selectedImages.length > 0 ? 'Done' : 'Cancel'}
             </button>
             <button
               onClick={capturePhoto}
               className="px-8 py-3 bg-orange-600 hover:bg-orange-500 text-white rounded-lg font-bold transition-colors flex items-center gap-2"
             >
               <Camera size={20} />
-              Capture Photo
+              Capture Photo ({selectedImages.length}/{MAX_IMAGES_PER_MESSAGE})
             </button>
           </div>
         </div>
@@ -522,10 +1144,103 @@ export default function Scanner() {
 
       {/* Header */}
       <div className="bg-slate-800 rounded-t-2xl p-6 border-b border-slate-700 flex-shrink-0">
-        <h2 className="text-2xl font-bold text-orange-400 mb-2">Issue Help</h2>
+        <div className="flex items-start justify-between gap-3">
+          <h2 className="text-2xl font-bold text-orange-400 mb-2">Issue Help</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={startNewConversation}
+              disabled={loading || messages.length === 0}
+              className="flex items-center gap-1 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1.5 rounded-lg transition-colors"
+              title="Start a new conversation"
+            >
+              <Plus size={16} />
+              New
+            </button>
+            <button
+              onClick={toggleSessions}
+              disabled={loading}
+              className="flex items-center gap-1 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1.5 rounded-lg transition-colors"
+              title="Past conversations"
+            >
+              <History size={16} />
+              History
+            </button>
+          </div>
+        </div>
         <p className="text-slate-400">Ask questions, upload photos, get repair guidance</p>
+        {/* Phase marker from the latest reply */}
+        {currentPhase && (
+          <div className="flex items-center gap-2 mt-2 text-xs">
+            {PHASE_STEPS.map((step, stepIdx) => {
+              const currentIdx = PHASE_STEPS.findIndex(s => s.phase === currentPhase);
+              return (
+                <span key={step.phase} className="flex items-center gap-2">
+                  {stepIdx > 0 && <span className="text-slate-600">›</span>}
+                  <span
+                    className={
+                      stepIdx === currentIdx
+                        ? 'text-orange-400 font-semibold'
+                        : stepIdx < currentIdx ? 'text-slate-300' : 'text-slate-500'
+                    }
+                  >
+                    {stepIdx + 1}. {step.label}
+                  </span>
+                </span>
+              );
+            })}
+          </div>
+        )}
+        <p
+          className={`text-xs mt-2 ${aiBudget.used >= aiBudget.limit * 0.8 || aiBudget.followUpsUsed >= aiBudget.followUpLimit * 0.8 ? 'text-yellow-400' : 'text-slate-500'}`}
+          title="Each message or action counts once; the follow-up checks it triggers (safety, costs, memory) have their own allowance"
+        >
+          AI requests today: {aiBudget.used}/{aiBudget.limit} · follow-up checks: {aiBudget.followUpsUsed}/{aiBudget.followUpLimit}
+        </p>
+        {homeContext && (homeContext.yearBuilt || homeContext.climateRegion) && (
+          <p className="text-xs text-slate-500 mt-1">
+            Tailored to your home
+            {homeContext.yearBuilt ? ` · built around ${homeContext.yearBuilt}` : ''}
+            {homeContext.climateRegion ? ` · ${homeContext.climateRegion} climate` : ''}
+            {homeContext.ownedTools.length > 0 ? ` · ${homeContext.ownedTools.length} tools owned` : ''}
+          </p>
+        )}
       </div>
 
+      {/* Past Conversations */}
+      {showSessions && (
+        <div className="bg-slate-800 border-b border-slate-700 p-4 max-h-72 overflow-y-auto flex-shrink-0">
+          {sessions.length === 0 ? (
+            <p className="text-slate-500 text-sm text-center">No saved conversations yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {sessions.map(session => (
+                <li
+                  key={session.id}
+                  className={`flex items-center gap-3 p-3 rounded-lg border ${session.id === sessionId ? 'border-orange-500 bg-slate-900' : 'border-slate-700 bg-slate-900/50'}`}
+                >
+                  <button onClick={() => resumeSession(session)} className="flex-1 text-left min-w-0">
+                    <p className="text-white font-medium truncate">{session.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {new Date(session.updated_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      {' · '}{session.messages.length} messages
+                      {session.diagnosis ? ' · diagnosed' : ''}
+                      {session.repair_id ? ' · saved repair' : ''}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSession(session.id)}
+                    className="text-slate-400 hover:text-red-400 p-2 rounded-lg hover:bg-slate-800 transition-colors"
+                    title="Delete conversation"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Chat Messages Area - Scrollable */}
       <div className="flex-1 overflow-y-auto p-6 space-y-4">
         {messages.length === 0 ? (
@@ -557,15 +1272,99 @@ export default function Scanner() {
                     : 'bg-gradient-to-br from-slate-800 to-slate-900 text-white border border-slate-700 rounded-bl-sm'
                 }`}
               >
-                {msg.image && (
-                  <img
-                    src={msg.image}
-                    alt="Uploaded"
-                    className="rounded-lg mb-3 max-w-full shadow-md"
-                  />
+                {msg.images && msg.images.length === 1 && (
+                  <div className="relative mb-3">
+                    <img
+                      src={msg.images[0]}
+                      alt="Uploaded"
+                      className="rounded-lg max-w-full shadow-md"
+                    />
+                    {imagesForMessage(sessionImages, idx)[0] && (
+                      <span className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-0.5 rounded">
+                        Photo {imagesForMessage(sessionImages, idx)[0].number}
+                      </span>
+                    )}
+                  </div>
                 )}
-                {msg.text ? (
-                  <p className="whitespace-pre-wrap break-words leading-relaxed">{msg.text}</p>
+                {/* Thumbnail strip for multi-photo messages */}
+                {msg.images && msg.images.length > 1 && (
+                  <div className="flex gap-2 mb-3 overflow-x-auto">
+                    {msg.images.map((image, imageIdx) => (
+                      <a key={imageIdx} href={image} target="_blank" rel="noopener noreferrer" className="relative flex-shrink-0">
+                        <img
+                          src={image}
+                          alt={`Uploaded ${imageIdx + 1}`}
+                          className="h-28 w-28 object-cover rounded-lg shadow-md"
+                        />
+                        {imagesForMessage(sessionImages, idx)[imageIdx] && (
+                          <span className="absolute top-1 left-1 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded">
+                            Photo {imagesForMessage(sessionImages, idx)[imageIdx].number}
+                          </span>
+                        )}
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {/* Earlier photos re-attached because the message refers to them */}
+                {msg.referenced_images && msg.referenced_images.length > 0 && (
+                  <div className="flex items-center gap-2 mb-3 text-xs text-orange-100">
+                    <ImageIcon className="w-4 h-4 flex-shrink-0" />
+                    <span>Looking again at</span>
+                    {msg.referenced_images.map(number => {
+                      const image = sessionImages.find(registered => registered.number === number);
+                      return image ? (
+                        <img
+                          key={number}
+                          src={image.thumbnail}
+                          alt={`Photo ${number}`}
+                          title={image.description || `Photo ${number}`}
+                          className="h-8 w-8 object-cover rounded"
+                        />
+                      ) : (
+                        <span key={number}>Photo {number}</span>
+                      );
+                    })}
+                  </div>
+                )}
+                {msg.audio && (
+                  <audio controls src={msg.audio} className="mb-3 w-full max-w-xs" />
+                )}
+                {editingIndex === idx ? (
+                  /* Edit a sent message - resending branches the conversation */
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={3}
+                      className="w-full bg-orange-800/60 border border-orange-400/50 rounded-lg p-2 text-white focus:outline-none focus:border-white resize-none"
+                    />
+                    <div className="flex justify-end gap-2 text-sm">
+                      <button
+                        onClick={() => setEditingIndex(null)}
+                        className="px-3 py-1 rounded-lg bg-orange-900/60 hover:bg-orange-900 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleEditResend}
+                        className="px-3 py-1 rounded-lg bg-white text-orange-700 font-semibold hover:bg-orange-100 transition-colors"
+                      >
+                        Save & resend
+                      </button>
+                    </div>
+                    <p className="text-xs text-orange-100/80">Later messages move to a new branch - the original stays in History.</p>
+                  </div>
+                ) : msg.text ? (
+                  <p className="whitespace-pre-wrap break-words leading-relaxed">
+                    {msg.steps_locked ? hideRepairSteps(msg.text) : msg.text}
+                  </p>
+                ) : msg.stopped ? (
+                  <p className="text-sm text-slate-400 italic">Stopped before Fixit Hero replied.</p>
+                ) : queuePosition && idx === messages.length - 1 ? (
+                  /* Waiting for the shared request scheduler */
+                  <p className="text-sm text-slate-400 italic">
+                    Waiting for Fixit Hero... you're #{queuePosition} in line
+                  </p>
                 ) : (
                   /* Streaming indicator when text is empty */
                   <div className="flex gap-1 items-center py-1">
@@ -574,15 +1373,54 @@ export default function Scanner() {
                     <div className="w-2 h-2 bg-orange-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
                   </div>
                 )}
+                {/* Owner's manual pages the reply cited */}
+                {msg.manual_sources && msg.manual_sources.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                    <BookOpen className="w-4 h-4 text-orange-300 flex-shrink-0" />
+                    {msg.manual_sources.map(citation => (
+                      <button
+                        key={`${citation.manual_id}-${citation.page}`}
+                        onClick={() => openManualCitation(citation)}
+                        className="px-2 py-0.5 rounded-full bg-slate-900 border border-slate-600 text-slate-300 hover:border-orange-500 hover:text-orange-300 transition-colors"
+                        title="Open the manual"
+                      >
+                        {citation.manual_title}, p. {citation.page}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div
-                  className={`text-xs mt-2 opacity-70 ${
+                  className={`flex items-center gap-3 text-xs mt-2 opacity-70 ${
                     msg.role === 'user' ? 'text-orange-100' : 'text-slate-400'
                   }`}
                 >
-                  {new Date(msg.timestamp).toLocaleTimeString([], {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
+                  <span>
+                    {new Date(msg.timestamp).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                  {msg.stopped && msg.text && <span className="italic">Stopped</span>}
+                  {!loading && !chatDisabled && editingIndex === null && msg.role === 'user' && (
+                    <button
+                      onClick={() => startEditing(idx)}
+                      className="flex items-center gap-1 hover:opacity-100 hover:underline"
+                      title="Edit and resend"
+                    >
+                      <Pencil size={12} />
+                      Edit
+                    </button>
+                  )}
+                  {!loading && !chatDisabled && msg.role === 'assistant' && idx === messages.length - 1 && messages[idx - 1]?.role === 'user' && (
+                    <button
+                      onClick={handleRegenerate}
+                      className="flex items-center gap-1 hover:text-orange-300"
+                      title="Ask for a new answer"
+                    >
+                      <RefreshCw size={12} />
+                      Regenerate
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -596,6 +1434,54 @@ export default function Scanner() {
           ))
         )}
         
+        {/* Quick replies for the latest answer - tap to send */}
+        {lastQuickReplies && !loading && !chatDisabled && editingIndex === null && (
+          <div className="mt-4 space-y-2">
+            {lastQuickReplies.phase === 'confirmation' && (
+              <button
+                onClick={() => handleSend(CONFIRM_GUIDE_REPLY)}
+                disabled={isThinking}
+                className="w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-500 hover:to-orange-600 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-2xl shadow-lg transition-all"
+              >
+                ✅ {CONFIRM_GUIDE_REPLY}
+              </button>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {lastQuickReplies.replies
+                .filter(reply => lastQuickReplies.phase !== 'confirmation' || reply !== CONFIRM_GUIDE_REPLY)
+                .map(reply => (
+                  <button
+                    key={reply}
+                    onClick={() => handleSend(reply)}
+                    disabled={isThinking}
+                    className="text-sm bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-orange-300 border border-orange-500/40 px-3 py-1.5 rounded-full transition-colors"
+                  >
+                    {reply}
+                  </button>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {/* Live preview of the guide while it streams, until the report is generated */}
+        {liveGuide && !showDiagnosisCard && (
+          <div className="mt-6">
+            <DiagnosisSummaryCard
+              diagnosisResult={liveGuide}
+              partsQuantities={partsQuantities}
+              onUpdateQuantity={() => {}}
+              onRemovePart={() => {}}
+              onAddToShoppingList={() => {}}
+              partsAdded={partsAdded}
+              preview
+              streaming={loading}
+              onSelectHypothesis={switchHypothesis}
+              switchingHypothesis={switchingHypothesis}
+              onAcknowledgeSafety={acknowledgeSafety}
+            />
+          </div>
+        )}
+
         {/* Diagnosis Summary Card */}
         {diagnosisResult && showDiagnosisCard && (
           <div className="mt-6">
@@ -608,13 +1494,19 @@ export default function Scanner() {
               onRemovePart={removePart}
               onAddToShoppingList={addPartsToShoppingList}
               partsAdded={partsAdded}
+              repairId={savedRepairId}
+              estimatingCost={estimatingCost}
+              costEstimateFailed={costEstimateFailed}
+              onSelectHypothesis={switchHypothesis}
+              switchingHypothesis={switchingHypothesis}
+              onAcknowledgeSafety={acknowledgeSafety}
             />
           </div>
         )}
 
 
         {/* Generate Hero Report Button */}
-        {diagnosisResult && !showDiagnosisCard && (
+        {diagnosisResult && !showDiagnosisCard && !loading && (
           <div className="mt-6 flex justify-center">
             <button
               onClick={async () => {
@@ -630,6 +1522,18 @@ export default function Scanner() {
           </div>
         )}
 
+        {/* Label Scan */}
+        {labelScan && (
+          <div className="mt-6">
+            <LabelScanCard
+              image={labelScan.image}
+              scan={labelScan.scan}
+              onUseInChat={addLabelToInput}
+              onClose={() => setLabelScan(null)}
+            />
+          </div>
+        )}
+
         <div ref={chatEndRef} />
       </div>
 
@@ -637,24 +1541,52 @@ export default function Scanner() {
       <div className="bg-slate-800 rounded-b-2xl p-4 border-t border-slate-700 flex-shrink-0">
 
         {/* Image Preview */}
-        {selectedImage && (
-          <div className="mb-3 relative inline-block">
-            <img
-              src={selectedImage}
-              alt="Selected"
-              className="h-20 rounded-lg border border-slate-600"
-            />
-            <button
-              onClick={() => {
-                setSelectedImage(null);
-                if (fileInputRef.current) {
-                  fileInputRef.current.value = '';
-                }
-              }}
-              className="absolute -top-2 -right-2 bg-red-600 hover:bg-red-500 rounded-full p-1 transition-colors"
-            >
-              <X size={14} />
-            </button>
+        {selectedImages.length > 0 && (
+          <div className="mb-3">
+            <div className="flex gap-3 flex-wrap">
+              {selectedImages.map((image, idx) => (
+                <div key={idx} className="relative inline-block">
+                  <img
+                    src={image}
+                    alt={`Selected ${idx + 1}`}
+                    className="h-20 rounded-lg border border-slate-600"
+                  />
+                  <button
+                    onClick={() => removeSelectedImage(idx)}
+                    className="absolute -top-2 -right-2 bg-red-600 hover:bg-red-500 rounded-full p-1 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              {selectedImages.length}/{MAX_IMAGES_PER_MESSAGE} photos - add a wide shot, a close-up and the model plate
+            </p>
+          </div>
+        )}
+
+        {/* Audio Preview */}
+        {(selectedAudio || recordingSeconds !== null) && (
+          <div className="mb-3 flex items-center gap-3">
+            {recordingSeconds !== null ? (
+              <span className="flex items-center gap-2 text-sm text-red-400">
+                <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                Recording... {recordingSeconds}s / {MAX_CLIP_SECONDS}s
+              </span>
+            ) : selectedAudio && (
+              <>
+                <audio controls src={selectedAudio.dataUrl} className="h-10" />
+                <span className="text-xs text-slate-500">{selectedAudio.durationSeconds.toFixed(1)}s</span>
+                <button
+                  onClick={() => setSelectedAudio(null)}
+                  className="bg-red-600 hover:bg-red-500 rounded-full p-1 transition-colors"
+                  title="Remove recording"
+                >
+                  <X size={14} />
+                </button>
+              </>
+            )}
           </div>
         )}
 
@@ -663,7 +1595,7 @@ export default function Scanner() {
           {/* Camera Button - Take Photo */}
           <button
             onClick={() => setShowCamera(true)}
-            disabled={chatDisabled}
+            disabled={chatDisabled || selectedImages.length >= MAX_IMAGES_PER_MESSAGE}
             className="flex-shrink-0 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
             title={chatDisabled ? "Chat disabled - diagnosis in progress" : "Take photo with camera"}
           >
@@ -675,19 +1607,50 @@ export default function Scanner() {
             ref={fileInputRef}
             type="file"
             accept="image/*"
+            multiple
             onChange={handleImageSelect}
             className="hidden"
             disabled={chatDisabled}
           />
           <button
             onClick={() => fileInputRef.current?.click()}
-            disabled={chatDisabled}
+            disabled={chatDisabled || selectedImages.length >= MAX_IMAGES_PER_MESSAGE}
             className="flex-shrink-0 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
             title={chatDisabled ? "Chat disabled - diagnosis in progress" : "Upload from gallery"}
           >
             <ImageIcon size={20} />
           </button>
 
+          {/* Label Scan Button - Model plates, filter sizes, part stickers */}
+          <input
+            ref={labelInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={handleLabelSelect}
+            className="hidden"
+          />
+          <button
+            onClick={() => labelInputRef.current?.click()}
+            disabled={labelScan !== null && !labelScan.scan}
+            className="flex-shrink-0 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
+            title="Scan a model plate, filter size label or part sticker"
+          >
+            <ScanLine size={20} />
+          </button>
+
+          {/* Record Button - Noises */}
+          {isAudioRecordingSupported() && (
+            <button
+              onClick={recordingSeconds !== null ? stopRecording : startRecording}
+              disabled={chatDisabled}
+              className={`flex-shrink-0 ${recordingSeconds !== null ? 'bg-red-600 hover:bg-red-500' : 'bg-slate-700 hover:bg-slate-600'} disabled:bg-slate-800 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors`}
+              title={recordingSeconds !== null ? "Stop recording" : `Record a sound (up to ${MAX_CLIP_SECONDS}s)`}
+            >
+              {recordingSeconds !== null ? <Square size={20} /> : <Mic size={20} />}
+            </button>
+          )}
+
           {/* Text Input */}
           <textarea
             value={inputText}
@@ -699,14 +1662,24 @@ export default function Scanner() {
             className="flex-1 bg-slate-900 border border-slate-600 rounded-lg p-3 text-white placeholder-slate-400 focus:outline-none focus:border-orange-500 disabled:bg-slate-800 disabled:cursor-not-allowed resize-none"
           />
 
-          {/* Send Button */}
-          <button
-            onClick={handleSend}
-            disabled={loading || isThinking || chatDisabled || (!inputText.trim() && !selectedImage)}
-            className="flex-shrink-0 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
-          >
-            {loading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
-          </button>
+          {/* Send Button - becomes Stop while a reply is generating */}
+          {loading || switchingHypothesis !== null ? (
+            <button
+              onClick={stopGeneration}
+              className="flex-shrink-0 bg-red-600 hover:bg-red-500 text-white p-3 rounded-lg transition-colors"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSend()}
+              disabled={isThinking || chatDisabled || recordingSeconds !== null || (!inputText.trim() && selectedImages.length === 0 && !selectedAudio)}
+              className="flex-shrink-0 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
+            >
+              {isThinking ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,40 @@
+import { PlayCircle, FileText } from 'lucide-react';
+import { generateTutorialLinks } from '../services/affiliateService';
+
+interface TutorialLinksProps {
+  searchTerm: string;
+  className?: string;
+}
+
+/**
+ * Video and article searches for a repair's tutorial search term
+ */
+export default function TutorialLinks({ searchTerm, className = '' }: TutorialLinksProps) {
+  const links = generateTutorialLinks(searchTerm);
+
+  return (
+    <div className={className}>
+      <span className="text-xs font-medium text-slate-400 block mb-2">Tutorials for "{searchTerm}":</span>
+      <div className="flex items-center gap-2 flex-wrap">
+        <a
+          href={links.video}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm bg-red-700 hover:bg-red-600 text-white font-medium transition-colors"
+          title="Search YouTube"
+        >
+          <PlayCircle size={14} /> Videos
+        </a>
+        <a
+          href={links.article}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm bg-slate-700 hover:bg-slate-600 text-white font-medium transition-colors"
+          title="Search the web"
+        >
+          <FileText size={14} /> Articles
+        </a>
+      </div>
+    </div>
+  );
+}
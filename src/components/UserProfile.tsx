@@ -1,7 +1,16 @@
 import { useState, useEffect } from 'react';
-import { User, MapPin, Home, Save, Map } from 'lucide-react';
+import { User, MapPin, Home, Save, Map, Hammer } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { updateUserProfile, updateUserLocation } from '../services/authService';
+import {
+  COMFORT_LIMITS,
+  COMFORT_LIMIT_LABELS,
+  SKILL_LEVELS,
+  SKILL_LEVEL_DESCRIPTIONS,
+  SKILL_LEVEL_LABELS,
+  type ComfortLimit,
+  type SkillLevel
+} from '../services/skillProfileService';
 
 export default function UserProfile() {
   const { user, profile, refreshProfile } = useAuth();
@@ -14,6 +23,8 @@ export default function UserProfile() {
   const [lastName, setLastName] = useState(profile?.lastName || '');
   const [zipCode, setZipCode] = useState(profile?.zipCode || '');
   const [homeAge, setHomeAge] = useState(profile?.homeAge?.toString() || '');
+  const [skillLevel, setSkillLevel] = useState<SkillLevel | ''>(profile?.skillLevel || '');
+  const [comfortLimits, setComfortLimits] = useState<ComfortLimit[]>(profile?.comfortLimits || []);
 
   useEffect(() => {
     if (profile) {
@@ -21,6 +32,8 @@ export default function UserProfile() {
       setLastName(profile.lastName || '');
       setZipCode(profile.zipCode || '');
       setHomeAge(profile.homeAge?.toString() || '');
+      setSkillLevel(profile.skillLevel || '');
+      setComfortLimits(profile.comfortLimits);
     }
   }, [profile]);
 
@@ -40,7 +53,9 @@ export default function UserProfile() {
         firstName: firstName.trim() || null,
         lastName: lastName.trim() || null,
         zipCode: zipCode.trim() || null,
-        homeAge: ageNum
+        homeAge: ageNum,
+        skillLevel: skillLevel || null,
+        comfortLimits
       });
 
       if (error) {
@@ -236,6 +251,56 @@ export default function UserProfile() {
             )}
           </div>
 
+          {/* Skill Level */}
+          <div className="bg-slate-900 rounded-xl p-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              <Hammer size={16} className="inline mr-2" />
+              DIY Skill Level
+            </label>
+            {isEditing ? (
+              <div className="space-y-3">
+                <select
+                  value={skillLevel}
+                  onChange={(e) => setSkillLevel(e.target.value as SkillLevel | '')}
+                  className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-orange-500"
+                >
+                  <option value="">Not set</option>
+                  {SKILL_LEVELS.map(level => (
+                    <option key={level} value={level}>
+                      {SKILL_LEVEL_LABELS[level]} - {SKILL_LEVEL_DESCRIPTIONS[level]}
+                    </option>
+                  ))}
+                </select>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {COMFORT_LIMITS.map(limit => (
+                    <label key={limit} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={comfortLimits.includes(limit)}
+                        onChange={(e) => setComfortLimits(prev =>
+                          e.target.checked ? [...prev, limit] : prev.filter(item => item !== limit)
+                        )}
+                      />
+                      {COMFORT_LIMIT_LABELS[limit]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="text-white bg-slate-800 px-4 py-2 rounded-lg">
+                {profile.skillLevel ? SKILL_LEVEL_LABELS[profile.skillLevel] : 'Not provided'}
+                {profile.comfortLimits.length > 0 && (
+                  <span className="block text-sm text-slate-400">
+                    {profile.comfortLimits.map(limit => COMFORT_LIMIT_LABELS[limit]).join(' · ')}
+                  </span>
+                )}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 mt-1">
+              Repair guides are more detailed for beginners and shorter for experienced DIYers, and suggest a pro for work outside your comfort zone
+            </p>
+          </div>
+
           {/* Location */}
           <div className="bg-slate-900 rounded-xl p-4">
             <div className="flex items-center justify-between mb-2">
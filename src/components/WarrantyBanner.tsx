@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import type { DiagnosisResult } from '../services/diagnosisService';
+import { getAppliances, type Appliance } from '../services/applianceService';
+import {
+  WARRANTY_KIND_LABELS,
+  findPossibleCoverage,
+  formatExpiry,
+  getWarranties,
+  type Warranty
+} from '../services/warrantyService';
+
+interface WarrantyBannerProps {
+  diagnosisResult: Pick<DiagnosisResult, 'title' | 'summary' | 'parts_needed'>;
+}
+
+/**
+ * Warning shown with a diagnosis when the user's registered equipment it mentions
+ * has an unexpired warranty or service contract
+ */
+export default function WarrantyBanner({ diagnosisResult }: WarrantyBannerProps) {
+  const [appliances, setAppliances] = useState<Appliance[]>([]);
+  const [warranties, setWarranties] = useState<Warranty[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getAppliances(), getWarranties()]).then(([userAppliances, userWarranties]) => {
+      if (cancelled) return;
+      setAppliances(userAppliances);
+      setWarranties(userWarranties);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [diagnosisResult.title]);
+
+  const matches = findPossibleCoverage(
+    [diagnosisResult.title, diagnosisResult.summary, ...diagnosisResult.parts_needed].join('\n'),
+    appliances,
+    warranties
+  );
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-blue-900/30 border border-blue-500/60 rounded-lg p-4 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <ShieldCheck className="w-5 h-5 text-blue-300" />
+        <h5 className="font-bold text-blue-300">This may still be under warranty</h5>
+      </div>
+      <ul className="space-y-1 mb-2">
+        {matches.map(({ warranty, appliance }) => (
+          <li key={warranty.id} className="text-sm text-slate-200">
+            <span className="font-semibold">{appliance.name}</span>: {WARRANTY_KIND_LABELS[warranty.kind].toLowerCase()} from {warranty.provider}
+            {warranty.coverage && ` (${warranty.coverage})`}. {formatExpiry(warranty)}.
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-slate-400">
+        Contact the provider before starting. Opening the unit or fitting your own parts can void coverage.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, useEffect, useRef } from 'react';
+import { ShieldCheck, Plus, Trash2, Camera, Loader2, FileText } from 'lucide-react';
+import type { Appliance, LinkableItem } from '../services/applianceService';
+import { compressImage } from '../services/imageMemoryService';
+import { getMediaUrl } from '../services/mediaService';
+import {
+  WARRANTY_KIND_LABELS,
+  addWarranty,
+  deleteWarranty,
+  expiryFromTerm,
+  formatExpiry,
+  warrantyStatus,
+  type Warranty,
+  type WarrantyKind,
+  type WarrantyStatus
+} from '../services/warrantyService';
+
+const STATUS_STYLES: Record<WarrantyStatus, string> = {
+  active: 'text-green-400',
+  expiring: 'text-yellow-400',
+  expired: 'text-slate-500'
+};
+
+interface WarrantyPanelProps {
+  appliance: Appliance;
+  /** Parts linked to the appliance, which a warranty can cover on their own */
+  parts: LinkableItem[];
+  /** Warranties on this appliance and its parts */
+  warranties: Warranty[];
+  onAdded: (warranty: Warranty) => void;
+  onDeleted: (warranty: Warranty) => void;
+}
+
+/**
+ * Warranties and service contracts for one appliance in the equipment registry
+ */
+export default function WarrantyPanel({ appliance, parts, warranties, onAdded, onDeleted }: WarrantyPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [kind, setKind] = useState<WarrantyKind>('manufacturer');
+  const [provider, setProvider] = useState('');
+  const [partId, setPartId] = useState('');
+  const [coverage, setCoverage] = useState('');
+  const [startDate, setStartDate] = useState(appliance.install_date || '');
+  const [termMonths, setTermMonths] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [proofImage, setProofImage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [proofUrls, setProofUrls] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Storage is private, so proof photos get short-lived signed URLs when shown
+  useEffect(() => {
+    let cancelled = false;
+    const paths = warranties.map(warranty => warranty.proof_image).filter((path): path is string => !!path);
+    if (paths.length === 0) return;
+
+    Promise.all(paths.map(path => getMediaUrl(path))).then(urls => {
+      if (cancelled) return;
+      setProofUrls(Object.fromEntries(paths.flatMap((path, idx) => (urls[idx] ? [[path, urls[idx]!]] : []))));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [warranties]);
+
+  // A term fills in the expiry; the expiry can still be typed directly
+  const handleTermChange = (start: string, months: string) => {
+    setStartDate(start);
+    setTermMonths(months);
+    const computed = expiryFromTerm(start, parseInt(months));
+    if (computed) setExpiresOn(computed);
+  };
+
+  const handleProofSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read photo'));
+        reader.readAsDataURL(file);
+      });
+      // Receipts need legible small print
+      setProofImage(await compressImage(dataUrl, 1600, 0.85));
+    } catch (error) {
+      console.error('Error reading proof of purchase:', error);
+      alert('Could not read that photo. Please try another one.');
+    }
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setProvider('');
+    setPartId('');
+    setCoverage('');
+    setTermMonths('');
+    setExpiresOn('');
+    setProofImage(null);
+  };
+
+  const handleSave = async () => {
+    if (!provider.trim() || !expiresOn) {
+      alert('Enter the provider and an expiry date (or a start date and term).');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await addWarranty({
+      kind,
+      provider,
+      appliance_id: appliance.id,
+      part_id: partId || null,
+      coverage,
+      start_date: startDate || null,
+      term_months: parseInt(termMonths) || null,
+      expires_on: expiresOn
+    }, proofImage);
+    setSaving(false);
+
+    if (saved) {
+      onAdded(saved);
+      resetForm();
+    }
+  };
+
+  const handleDelete = async (warranty: Warranty) => {
+    if (!confirm(`Delete the ${warranty.provider} warranty?`)) return;
+    if (await deleteWarranty(warranty)) onDeleted(warranty);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-orange-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-orange-300 flex items-center gap-2">
+          <ShieldCheck size={16} /> Warranties
+        </h4>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 text-sm text-orange-300 hover:text-orange-200 transition-colors"
+          >
+            <Plus size={14} /> Add warranty
+          </button>
+        )}
+      </div>
+
+      {warranties.length === 0 && !showForm && (
+        <p className="text-sm text-slate-500">No warranty or service contract recorded.</p>
+      )}
+
+      <ul className="space-y-2">
+        {warranties.map(warranty => {
+          const part = parts.find(item => item.id === warranty.part_id);
+          return (
+            <li key={warranty.id} className="bg-slate-900 rounded-lg p-3 flex items-start gap-3">
+              {warranty.proof_image && proofUrls[warranty.proof_image] && (
+                <a href={proofUrls[warranty.proof_image]} target="_blank" rel="noopener noreferrer" title="Proof of purchase">
+                  <img src={proofUrls[warranty.proof_image]} alt="Proof of purchase" className="w-14 h-14 object-cover rounded" />
+                </a>
+              )}
+              <div className="flex-1 text-sm">
+                <p className="text-white font-semibold">
+                  {warranty.provider}
+                  <span className="text-slate-400 font-normal"> · {WARRANTY_KIND_LABELS[warranty.kind]}</span>
+                </p>
+                <p className="text-slate-400">{part ? `Covers ${part.title}` : `Covers the ${appliance.name.toLowerCase()}`}</p>
+                {warranty.coverage && <p className="text-slate-300">{warranty.coverage}</p>}
+                <p className={STATUS_STYLES[warrantyStatus(warranty)]}>{formatExpiry(warranty)}</p>
+              </div>
+              <button
+                onClick={() => handleDelete(warranty)}
+                className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                title="Delete warranty"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {showForm && (
+        <div className="bg-slate-900 rounded-lg p-4 mt-2 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select value={kind} onChange={(e) => setKind(e.target.value as WarrantyKind)} className={inputClass}>
+              {(Object.keys(WARRANTY_KIND_LABELS) as WarrantyKind[]).map(option => (
+                <option key={option} value={option}>{WARRANTY_KIND_LABELS[option]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              placeholder="Provider, e.g. Rheem or American Home Shield"
+              className={inputClass}
+            />
+            <select value={partId} onChange={(e) => setPartId(e.target.value)} className={inputClass}>
+              <option value="">Covers the whole {appliance.name.toLowerCase()}</option>
+              {parts.map(part => (
+                <option key={part.id} value={part.id}>Covers {part.title}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={coverage}
+              onChange={(e) => setCoverage(e.target.value)}
+              placeholder="Coverage, e.g. parts 6 yr, labor 1 yr"
+              className={inputClass}
+            />
+            <label className="text-xs text-slate-400">
+              Start date
+              <input type="date" value={startDate} onChange={(e) => handleTermChange(e.target.value, termMonths)} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="text-xs text-slate-400">
+              Term (months)
+              <input
+                type="number"
+                min="1"
+                value={termMonths}
+                onChange={(e) => handleTermChange(startDate, e.target.value)}
+                placeholder="e.g. 72"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-xs text-slate-400">
+              Expires
+              <input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} className={`${inputClass} mt-1`} />
+            </label>
+            <div className="flex items-end">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handleProofSelected}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+              >
+                {proofImage ? <FileText size={14} className="text-green-400" /> : <Camera size={14} />}
+                {proofImage ? 'Receipt attached' : 'Proof of purchase'}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-700 rounded-lg text-sm font-semibold transition-colors"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Warranty
+            </button>
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -52,3 +52,20 @@ export function generateAffiliateLinks(partName: string): AffiliateLinks {
   };
 }
 
+export interface TutorialLinks {
+  video: string;
+  article: string;
+}
+
+/**
+ * Ready-made searches for a diagnosis's tutorial search term
+ */
+export function generateTutorialLinks(searchTerm: string): TutorialLinks {
+  const term = searchTerm.trim();
+
+  return {
+    video: `https://www.youtube.com/results?search_query=${encodeURIComponent(term)}`,
+    article: `https://www.google.com/search?q=${encodeURIComponent(`how to ${term}`)}`
+  };
+}
+
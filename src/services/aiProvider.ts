@@ -0,0 +1,134 @@
+import type { ResponseSchema } from "@google/generative-ai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOfflineProvider } from "./offlineProvider";
+
+/**
+ * Available AI backends
+ * - 'gemini': live Google Gemini models (needs VITE_GEMINI_API_KEY and network)
+ * - 'offline': local scripted provider driven by fixtures, for demos and testing
+ */
+export type AiProviderId = 'gemini' | 'offline';
+
+/**
+ * Inline media sent alongside a prompt (base64 without the data: prefix)
+ */
+export interface AiMedia {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Multimodal chat history in Gemini format
+ */
+export type ChatHistory = Array<{role: 'user' | 'model', parts: Array<{text?: string, inlineData?: {data: string, mimeType: string}}>}>;
+
+/**
+ * One-shot analysis request
+ * prompt is the fully rendered prompt; userInput is the raw text the user typed
+ * (scripted providers use it to pick a fixture, live providers ignore it)
+ */
+export interface AnalysisRequest {
+  prompt: string;
+  image?: AiMedia;
+  userInput?: string;
+}
+
+/**
+ * One turn of a streamed chat
+ * images and audio are sent as separate inline parts of the same user turn
+ */
+export interface ChatTurnRequest {
+  text: string;
+  images?: AiMedia[];
+  audio?: AiMedia;
+  history: ChatHistory;
+  systemInstruction: string;
+  /** Cancels the turn; the stream then throws an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request for a JSON response matching a schema
+ * task names the kind of structured output (e.g. 'final-guide') so scripted
+ * providers can answer from fixtures
+ */
+export interface StructuredRequest {
+  task: string;
+  prompt: string;
+  schema: ResponseSchema;
+  history?: ChatHistory;
+  systemInstruction?: string;
+  images?: AiMedia[];
+  /** Cancels the request, including retry backoff; it then rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  analyzeImage(request: AnalysisRequest): Promise<string>;
+  analyzeTextIssue(request: AnalysisRequest): Promise<string>;
+  askClarifyingQuestion(request: AnalysisRequest): Promise<string>;
+  refineAnalysis(request: AnalysisRequest): Promise<string>;
+  /**
+   * Stream one chat turn
+   * @returns AsyncGenerator that yields text chunks as they arrive
+   */
+  sendMessageStream(request: ChatTurnRequest): AsyncGenerator<string, void, unknown>;
+  /**
+   * Generate a JSON response for a schema
+   * @returns The raw JSON text - callers validate it
+   */
+  generateStructured(request: StructuredRequest): Promise<string>;
+}
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Resolve which provider to use from the environment
+ * The offline provider is only used when VITE_AI_PROVIDER=offline is set explicitly - a missing
+ * Gemini key never switches to scripted guides, so requests fail visibly instead.
+ */
+export function resolveAiProviderId(): AiProviderId {
+  const configured = (import.meta.env.VITE_AI_PROVIDER || '').toLowerCase();
+  if (configured === 'offline') {
+    return 'offline';
+  }
+
+  if (configured && configured !== 'gemini') {
+    console.warn(`Unknown VITE_AI_PROVIDER "${configured}", using gemini`);
+  }
+
+  if (!import.meta.env.VITE_GEMINI_API_KEY) {
+    console.error('VITE_GEMINI_API_KEY not found. AI requests will fail until it is set (or set VITE_AI_PROVIDER=offline for the demo provider).');
+  }
+
+  return 'gemini';
+}
+
+/**
+ * Get the active AI provider (created once per app load)
+ */
+export function getAiProvider(): AiProvider {
+  if (!activeProvider) {
+    const providerId = resolveAiProviderId();
+    activeProvider = providerId === 'offline'
+      ? createOfflineProvider()
+      : createGeminiProvider(import.meta.env.VITE_GEMINI_API_KEY);
+    console.log('AI provider:', activeProvider.id);
+  }
+  return activeProvider;
+}
+
+/**
+ * Mime type from a data URL prefix (data:<mime>;base64,...)
+ */
+export function toMimeType(dataUrl: string, fallback: string): string {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || fallback;
+}
+
+/**
+ * Strip the data URL prefix from base64 media
+ */
+export function toBase64Data(base64: string): string {
+  return base64.includes(",") ? base64.split(",")[1] : base64;
+}
@@ -0,0 +1,55 @@
+import { toast } from 'sonner';
+import type { AiStatusEvent } from './retryPolicy';
+import type { SchedulerEvent } from './requestScheduler';
+
+const toastIdFor = (operationId: number) => `ai-operation-${operationId}`;
+
+/**
+ * Map retry policy events to user notifications
+ * The only place AI retry/fallback toasts are shown - subscribe once at app level
+ */
+export function showAiStatusToast(event: AiStatusEvent): void {
+  switch (event.type) {
+    case 'retrying':
+      toast.loading(
+        event.attempt === 1
+          ? 'Fixit Hero brain is busy... retrying.'
+          : `Fixit Hero brain is busy. Retrying in ${Math.ceil(event.delayMs / 1000)}s...`,
+        { id: toastIdFor(event.operationId) }
+      );
+      break;
+    case 'model-fallback':
+      toast.loading('Switching to backup brain...', { id: toastIdFor(event.operationId) });
+      break;
+    case 'circuit-open':
+      toast.warning('Main brain is overloaded - using the backup brain for a minute.', { id: 'ai-circuit' });
+      break;
+    case 'recovered':
+    case 'cancelled':
+      toast.dismiss(toastIdFor(event.operationId));
+      break;
+    case 'failed':
+      toast.error(
+        event.reason === 'capacity'
+          ? 'Fixit Hero brain is at capacity. Please wait 1-2 minutes before trying again.'
+          : 'Hero Brain encountered an error. Please try again.',
+        { id: toastIdFor(event.operationId) }
+      );
+      break;
+    case 'circuit-closed':
+      break;
+  }
+}
+
+/**
+ * Warn about the daily AI budget before the Gemini quota wall is hit
+ */
+export function showSchedulerToast(event: SchedulerEvent): void {
+  if (event.type === 'budget-warning') {
+    toast.warning(`You've used ${event.budget.used} of ${event.budget.limit} AI requests today. Heavy use may hit the daily limit soon.`);
+  } else if (event.type === 'budget-exhausted') {
+    toast.error(`Today's AI budget (${event.budget.limit} requests) is used up. Requests may start failing until tomorrow.`);
+  } else if (event.type === 'follow-up-budget-exhausted') {
+    toast.warning('Extra AI checks (safety review, cost estimates, photo notes) are paused until tomorrow. Guides still use the built-in checks.');
+  }
+}
@@ -0,0 +1,438 @@
+import { supabase } from './supabaseClient';
+import { toast } from 'sonner';
+import { deleteMedia, uploadMedia } from './mediaService';
+
+export type ApplianceType =
+  | 'water-heater'
+  | 'furnace'
+  | 'air-conditioner'
+  | 'heat-pump'
+  | 'boiler'
+  | 'dishwasher'
+  | 'refrigerator'
+  | 'washer'
+  | 'dryer'
+  | 'range'
+  | 'microwave'
+  | 'garbage-disposal'
+  | 'sump-pump'
+  | 'water-softener'
+  | 'garage-door-opener'
+  | 'other';
+
+export const APPLIANCE_TYPE_LABELS: Record<ApplianceType, string> = {
+  'water-heater': 'Water heater',
+  'furnace': 'Furnace',
+  'air-conditioner': 'Air conditioner',
+  'heat-pump': 'Heat pump',
+  'boiler': 'Boiler',
+  'dishwasher': 'Dishwasher',
+  'refrigerator': 'Refrigerator',
+  'washer': 'Washer',
+  'dryer': 'Dryer',
+  'range': 'Range / oven',
+  'microwave': 'Microwave',
+  'garbage-disposal': 'Garbage disposal',
+  'sump-pump': 'Sump pump',
+  'water-softener': 'Water softener',
+  'garage-door-opener': 'Garage door opener',
+  'other': 'Other'
+};
+
+export const APPLIANCE_TYPES = Object.keys(APPLIANCE_TYPE_LABELS) as ApplianceType[];
+
+/**
+ * Best-guess type for free text such as a label scan's "Gas water heater"
+ */
+export function applianceTypeFromText(text: string): ApplianceType {
+  const normalized = text.toLowerCase();
+  if (normalized.includes('fridge')) return 'refrigerator';
+  if (normalized.includes('oven') || normalized.includes('stove')) return 'range';
+  if (normalized.includes('washing machine')) return 'washer';
+  return APPLIANCE_TYPES.find(type => type !== 'other' && normalized.includes(type.replace(/-/g, ' '))) || 'other';
+}
+
+/**
+ * A furnace, water heater, dishwasher... that repairs, maintenance tasks and parts can be linked to
+ */
+export interface Appliance {
+  id: string;
+  user_id: string;
+  type: ApplianceType;
+  /** What the user calls it, e.g. "Basement water heater" */
+  name: string;
+  brand: string | null;
+  model: string | null;
+  serial: string | null;
+  manufacture_date: string | null;
+  /** YYYY-MM-DD */
+  install_date: string | null;
+  location: string | null;
+  /** Storage paths in the repair-media bucket (see mediaService) */
+  photos: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApplianceInput = Pick<Appliance, 'type' | 'name'> &
+  Partial<Pick<Appliance, 'brand' | 'model' | 'serial' | 'manufacture_date' | 'install_date' | 'location'>>;
+
+/**
+ * Records that can be linked to an appliance, and the table each lives in
+ */
+export type LinkableKind = 'repair' | 'task' | 'part';
+
+const LINK_TABLES: Record<LinkableKind, string> = {
+  repair: 'repairs',
+  task: 'maintenance_tasks',
+  part: 'maintenance_parts'
+};
+
+/**
+ * A repair, task or part as listed for linking
+ */
+export interface LinkableItem {
+  id: string;
+  title: string;
+  appliance_id: string | null;
+}
+
+/**
+ * One dated event in an appliance's history
+ */
+export interface ApplianceHistoryEntry {
+  kind: 'installed' | 'repair' | 'maintenance';
+  date: string;
+  title: string;
+  detail?: string;
+  /** Repair or task id */
+  item_id?: string;
+}
+
+export interface ApplianceHistory {
+  /** Newest first */
+  timeline: ApplianceHistoryEntry[];
+  repairs: LinkableItem[];
+  tasks: LinkableItem[];
+  parts: Array<LinkableItem & { model_number: string | null }>;
+}
+
+/**
+ * Fill the blanks in an input with nulls so optional columns are cleared, not skipped
+ */
+const toRow = (input: Partial<ApplianceInput>) => ({
+  ...input,
+  brand: input.brand?.trim() || null,
+  model: input.model?.trim() || null,
+  serial: input.serial?.trim() || null,
+  manufacture_date: input.manufacture_date?.trim() || null,
+  install_date: input.install_date || null,
+  location: input.location?.trim() || null
+});
+
+/**
+ * Get all appliances for the current user
+ * @returns Appliances sorted by name
+ */
+export async function getAppliances(): Promise<Appliance[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('appliances')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching appliances:', error);
+      return [];
+    }
+
+    return (data || []) as Appliance[];
+  } catch (error) {
+    console.error('Error in getAppliances:', error);
+    return [];
+  }
+}
+
+/**
+ * Add an appliance to the registry
+ * @param input - Type, name and any known details
+ * @param photos - Photos as data URLs, uploaded to storage (failed uploads are skipped)
+ * @returns The saved appliance or null if failed
+ */
+export async function addAppliance(input: ApplianceInput, photos: string[] = []): Promise<Appliance | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to save equipment');
+      return null;
+    }
+
+    const photoPaths = await Promise.all(photos.map(photo => uploadMedia(photo, 'appliances')));
+
+    const { data, error } = await supabase
+      .from('appliances')
+      .insert({
+        ...toRow(input),
+        user_id: user.id,
+        photos: photoPaths.filter((path): path is string => !!path),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding appliance:', error);
+      toast.error('Failed to save equipment');
+      return null;
+    }
+
+    toast.success(`${input.name} added to your equipment`);
+    window.dispatchEvent(new Event('applianceSaved'));
+
+    return data as Appliance;
+  } catch (error) {
+    console.error('Error in addAppliance:', error);
+    toast.error('An error occurred while saving');
+    return null;
+  }
+}
+
+/**
+ * Update an appliance's details and photos
+ * @param appliance - The appliance being edited
+ * @param updates - Changed fields
+ * @param newPhotos - Photos to add, as data URLs
+ * @param removedPhotos - Storage paths to remove
+ * @returns The updated appliance or null if failed
+ */
+export async function updateAppliance(
+  appliance: Appliance,
+  updates: Partial<ApplianceInput>,
+  newPhotos: string[] = [],
+  removedPhotos: string[] = []
+): Promise<Appliance | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to update equipment');
+      return null;
+    }
+
+    const uploaded = await Promise.all(newPhotos.map(photo => uploadMedia(photo, 'appliances')));
+    const photos = [
+      ...appliance.photos.filter(path => !removedPhotos.includes(path)),
+      ...uploaded.filter((path): path is string => !!path)
+    ];
+
+    const { data, error } = await supabase
+      .from('appliances')
+      .update({ ...toRow({ ...appliance, ...updates }), photos, updated_at: new Date().toISOString() })
+      .eq('id', appliance.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating appliance:', error);
+      toast.error('Failed to update equipment');
+      return null;
+    }
+
+    await deleteMedia(removedPhotos);
+    window.dispatchEvent(new Event('applianceSaved'));
+
+    return data as Appliance;
+  } catch (error) {
+    console.error('Error in updateAppliance:', error);
+    toast.error('An error occurred while updating');
+    return null;
+  }
+}
+
+/**
+ * Delete an appliance and its photos
+ * Linked repairs, tasks and parts are kept and simply unlinked (ON DELETE SET NULL)
+ * @returns true if successful, false otherwise
+ */
+export async function deleteAppliance(appliance: Appliance): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to delete equipment');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('appliances')
+      .delete()
+      .eq('id', appliance.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting appliance:', error);
+      toast.error('Failed to delete equipment');
+      return false;
+    }
+
+    await deleteMedia(appliance.photos);
+    toast.success('Equipment deleted');
+    window.dispatchEvent(new Event('applianceDeleted'));
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteAppliance:', error);
+    toast.error('An error occurred while deleting');
+    return false;
+  }
+}
+
+/**
+ * Repairs, maintenance tasks and parts the user can link, with their current appliance
+ */
+export async function getLinkableItems(): Promise<Record<LinkableKind, LinkableItem[]>> {
+  const empty = { repair: [], task: [], part: [] };
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return empty;
+
+    const [repairs, tasks, parts] = await Promise.all([
+      supabase.from('repairs').select('id, title, appliance_id').eq('user_id', user.id).order('created_at', { ascending: false }),
+      supabase.from('maintenance_tasks').select('id, title, appliance_id').eq('user_id', user.id).order('title'),
+      supabase.from('maintenance_parts').select('id, name, appliance_id').eq('user_id', user.id).order('name')
+    ]);
+
+    const error = repairs.error || tasks.error || parts.error;
+    if (error) {
+      console.error('Error fetching linkable items:', error);
+    }
+
+    return {
+      repair: (repairs.data || []) as LinkableItem[],
+      task: (tasks.data || []) as LinkableItem[],
+      part: (parts.data || []).map(part => ({ id: part.id, title: part.name, appliance_id: part.appliance_id }))
+    };
+  } catch (error) {
+    console.error('Error in getLinkableItems:', error);
+    return empty;
+  }
+}
+
+/**
+ * Link a repair, maintenance task or part to an appliance
+ * @param kind - What is being linked
+ * @param itemId - The repair, task or part id
+ * @param applianceId - The appliance, or null to unlink
+ * @returns true if successful, false otherwise
+ */
+export async function linkToAppliance(kind: LinkableKind, itemId: string, applianceId: string | null): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from(LINK_TABLES[kind])
+      .update({ appliance_id: applianceId, updated_at: new Date().toISOString() })
+      .eq('id', itemId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error(`Error linking ${kind} to appliance:`, error);
+      toast.error('Failed to update the link');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in linkToAppliance:', error);
+    toast.error('An error occurred while linking');
+    return false;
+  }
+}
+
+/**
+ * Everything linked to one appliance: a dated timeline of installs, repairs and
+ * completed maintenance, plus the linked records themselves
+ */
+export async function getApplianceHistory(appliance: Appliance): Promise<ApplianceHistory> {
+  const history: ApplianceHistory = { timeline: [], repairs: [], tasks: [], parts: [] };
+
+  try {
+    const [repairs, tasks, parts] = await Promise.all([
+      supabase.from('repairs').select('id, title, summary, status, created_at, appliance_id').eq('appliance_id', appliance.id),
+      supabase.from('maintenance_tasks').select('id, title, frequency, appliance_id').eq('appliance_id', appliance.id),
+      supabase.from('maintenance_parts').select('id, name, model_number, appliance_id').eq('appliance_id', appliance.id)
+    ]);
+
+    const error = repairs.error || tasks.error || parts.error;
+    if (error) {
+      console.error('Error fetching appliance history:', error);
+    }
+
+    const taskRows = tasks.data || [];
+    const { data: completions, error: historyError } = taskRows.length > 0
+      ? await supabase
+        .from('maintenance_history')
+        .select('task_id, completed_at, notes')
+        .in('task_id', taskRows.map(task => task.id))
+      : { data: [], error: null };
+
+    if (historyError) {
+      console.error('Error fetching maintenance history for appliance:', historyError);
+    }
+
+    history.repairs = (repairs.data || []).map(repair => ({ id: repair.id, title: repair.title, appliance_id: repair.appliance_id }));
+    history.tasks = taskRows.map(task => ({ id: task.id, title: task.title, appliance_id: task.appliance_id }));
+    history.parts = (parts.data || []).map(part => ({
+      id: part.id,
+      title: part.name,
+      appliance_id: part.appliance_id,
+      model_number: part.model_number
+    }));
+
+    const taskTitles = new Map(taskRows.map(task => [task.id, task.title]));
+    history.timeline = [
+      ...(appliance.install_date
+        ? [{ kind: 'installed' as const, date: appliance.install_date, title: 'Installed' }]
+        : []),
+      ...(repairs.data || []).map(repair => ({
+        kind: 'repair' as const,
+        date: repair.created_at,
+        title: repair.title,
+        detail: repair.status === 'resolved' ? 'Resolved' : repair.summary,
+        item_id: repair.id
+      })),
+      ...(completions || []).map(completion => ({
+        kind: 'maintenance' as const,
+        date: completion.completed_at,
+        title: taskTitles.get(completion.task_id) || 'Maintenance',
+        detail: completion.notes || undefined,
+        item_id: completion.task_id
+      }))
+    ].sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    console.error('Error in getApplianceHistory:', error);
+  }
+
+  return history;
+}
+
+/**
+ * Age in whole years from the install (or manufacture) date, when known
+ */
+export function applianceAgeYears(appliance: Appliance): number | null {
+  const date = appliance.install_date || appliance.manufacture_date;
+  if (!date) return null;
+
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return null;
+  return Math.max(0, Math.floor((Date.now() - parsed.getTime()) / (365.25 * 24 * 60 * 60 * 1000)));
+}
@@ -0,0 +1,174 @@
+/**
+ * Audio clip capture for noise diagnosis
+ * Records with MediaRecorder, then trims silence, caps the length and downsamples
+ * to 16 kHz mono WAV so a clip stays small enough to send inline to the model.
+ */
+
+/**
+ * Longest clip kept after trimming
+ */
+export const MAX_CLIP_SECONDS = 15;
+
+/**
+ * 16 kHz mono keeps hums, knocks and pops while cutting size ~6x vs 48 kHz stereo
+ */
+const TARGET_SAMPLE_RATE = 16000;
+
+/**
+ * Samples below this level at the start/end of a clip count as silence
+ */
+const SILENCE_THRESHOLD = 0.01;
+
+export interface AudioClip {
+  /** data:audio/wav;base64,... */
+  dataUrl: string;
+  mimeType: string;
+  durationSeconds: number;
+}
+
+export interface AudioRecorder {
+  /** Stop recording and return the processed clip */
+  stop: () => Promise<AudioClip>;
+  /** Stop recording and discard everything */
+  cancel: () => void;
+}
+
+/**
+ * Whether this browser can record audio
+ */
+export function isAudioRecordingSupported(): boolean {
+  return typeof window !== 'undefined'
+    && typeof window.MediaRecorder !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Start recording from the microphone
+ * Recording stops on its own after MAX_CLIP_SECONDS; call stop() to collect the clip.
+ * @throws If microphone access is denied or unsupported
+ */
+export async function startAudioRecording(): Promise<AudioRecorder> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve();
+    };
+  });
+
+  recorder.start();
+
+  // Leave a second of headroom for silence trimming
+  const autoStop = setTimeout(() => {
+    if (recorder.state === 'recording') recorder.stop();
+  }, (MAX_CLIP_SECONDS + 1) * 1000);
+
+  return {
+    async stop() {
+      clearTimeout(autoStop);
+      if (recorder.state === 'recording') recorder.stop();
+      await stopped;
+      return processAudioClip(new Blob(chunks, { type: recorder.mimeType }));
+    },
+    cancel() {
+      clearTimeout(autoStop);
+      if (recorder.state === 'recording') recorder.stop();
+    }
+  };
+}
+
+/**
+ * Trim leading/trailing silence, cap at MAX_CLIP_SECONDS and downsample to 16 kHz mono WAV
+ */
+export async function processAudioClip(blob: Blob): Promise<AudioClip> {
+  const decodeContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeContext.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    decodeContext.close();
+  }
+
+  // Find where sound starts and ends (any channel above the threshold)
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i));
+  const isLoud = (index: number) => channels.some(data => Math.abs(data[index]) > SILENCE_THRESHOLD);
+
+  let start = 0;
+  while (start < decoded.length && !isLoud(start)) start++;
+  let end = decoded.length;
+  while (end > start && !isLoud(end - 1)) end--;
+
+  // A clip that is all silence is still sent as-is so the model can say so
+  if (start >= end) {
+    start = 0;
+    end = decoded.length;
+  }
+  end = Math.min(end, start + MAX_CLIP_SECONDS * decoded.sampleRate);
+
+  const durationSeconds = (end - start) / decoded.sampleRate;
+  const frameCount = Math.max(1, Math.ceil(durationSeconds * TARGET_SAMPLE_RATE));
+
+  // Resample + downmix by rendering the trimmed segment through an offline context
+  const offline = new OfflineAudioContext(1, frameCount, TARGET_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, start / decoded.sampleRate, durationSeconds);
+  const rendered = await offline.startRendering();
+
+  return {
+    dataUrl: `data:audio/wav;base64,${toBase64(encodeWav(rendered.getChannelData(0), TARGET_SAMPLE_RATE))}`,
+    mimeType: 'audio/wav',
+    durationSeconds
+  };
+}
+
+/**
+ * Encode mono float samples as 16-bit PCM WAV
+ */
+function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);           // fmt chunk size
+  view.setUint16(20, 1, true);            // PCM
+  view.setUint16(22, 1, true);            // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);            // block align
+  view.setUint16(34, 16, true);           // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return buffer;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to avoid call stack limits on String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -1,5 +1,6 @@
 ﻿import { supabase } from './supabaseClient';
 import type { User, Session } from '@supabase/supabase-js';
+import { toComfortLimits, toSkillLevel, type ComfortLimit, type SkillLevel } from './skillProfileService';
 
 export interface UserProfileNew {
   id: string;
@@ -10,6 +11,9 @@ export interface UserProfileNew {
   homeAge: number | null;
   latitude: number | null;
   longitude: number | null;
+  /** Drives guide depth and hire-a-pro suggestions (see skillProfileService) */
+  skillLevel: SkillLevel | null;
+  comfortLimits: ComfortLimit[];
   created_at?: string;
   updated_at?: string;
 }
@@ -198,6 +202,8 @@ export async function getUserProfile(userId: string): Promise<UserProfileNew | n
                 homeAge: existingProfile.home_age,
                 latitude: existingProfile.latitude,
                 longitude: existingProfile.longitude,
+                skillLevel: toSkillLevel(existingProfile.skill_level),
+                comfortLimits: toComfortLimits(existingProfile.comfort_limits),
                 created_at: existingProfile.created_at,
                 updated_at: existingProfile.updated_at,
               };
@@ -216,6 +222,8 @@ export async function getUserProfile(userId: string): Promise<UserProfileNew | n
             homeAge: newProfile.home_age,
             latitude: newProfile.latitude,
             longitude: newProfile.longitude,
+            skillLevel: toSkillLevel(newProfile.skill_level),
+            comfortLimits: toComfortLimits(newProfile.comfort_limits),
             created_at: newProfile.created_at,
             updated_at: newProfile.updated_at,
           };
@@ -235,6 +243,8 @@ export async function getUserProfile(userId: string): Promise<UserProfileNew | n
       homeAge: data.home_age,
       latitude: data.latitude,
       longitude: data.longitude,
+      skillLevel: toSkillLevel(data.skill_level),
+      comfortLimits: toComfortLimits(data.comfort_limits),
       created_at: data.created_at,
       updated_at: data.updated_at,
     };
@@ -255,6 +265,9 @@ export async function updateUserProfile(userId: string, updates: Partial<UserPro
         home_age: updates.homeAge ?? undefined,
         latitude: updates.latitude ?? undefined,
         longitude: updates.longitude ?? undefined,
+        // null clears the skill level ("Not set"); only a missing key leaves it unchanged
+        skill_level: 'skillLevel' in updates ? updates.skillLevel : undefined,
+        comfort_limits: 'comfortLimits' in updates ? updates.comfortLimits : undefined,
         updated_at: new Date().toISOString(),
       })
       .eq('id', userId);
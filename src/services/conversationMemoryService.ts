@@ -0,0 +1,188 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type { ChatHistory } from "./aiProvider";
+
+/**
+ * Running structured summary of a diagnosis conversation
+ * Sent ahead of the recent messages so long sessions keep their context
+ * without resending every turn.
+ */
+export interface ConversationMemory {
+  /** What the model saw in photos / heard in clips, and symptoms the user described */
+  observations: string[];
+  answered_questions: Array<{ question: string; answer: string }>;
+  ruled_out_causes: string[];
+  /** Current best guess, empty until there is one */
+  suspected_issue: string;
+  /** Number of chat messages folded into this memory */
+  updated_through: number;
+}
+
+/**
+ * Caps that keep the summary (and its token cost) bounded
+ */
+const MAX_OBSERVATIONS = 12;
+const MAX_ANSWERED_QUESTIONS = 10;
+const MAX_RULED_OUT = 8;
+
+/**
+ * Recent messages sent verbatim after the summary
+ */
+export const RECENT_MESSAGE_WINDOW = 4;
+
+export const EMPTY_MEMORY: ConversationMemory = {
+  observations: [],
+  answered_questions: [],
+  ruled_out_causes: [],
+  suspected_issue: '',
+  updated_through: 0
+};
+
+export const CONVERSATION_MEMORY_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    observations: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Concrete facts: what was seen in photos, heard in audio, and symptoms described"
+    },
+    answered_questions: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          question: { type: SchemaType.STRING },
+          answer: { type: SchemaType.STRING }
+        },
+        required: ["question", "answer"]
+      },
+      description: "Clarifying questions the user has already answered"
+    },
+    ruled_out_causes: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Causes eliminated so far, each with a short reason"
+    },
+    suspected_issue: { type: SchemaType.STRING, description: "Current most likely issue, or empty" }
+  },
+  required: ["observations", "answered_questions", "ruled_out_causes", "suspected_issue"]
+};
+
+const strings = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+    ? value.map(item => item.trim()).filter(item => item.length > 0)
+    : null;
+
+/**
+ * Runtime validation for a memory update returned by the model
+ * @param value - Parsed JSON from the model
+ * @param updatedThrough - Message count the update covers
+ */
+export function validateConversationMemory(value: unknown, updatedThrough: number): ConversationMemory | null {
+  if (!value || typeof value !== 'object') return null;
+  const memory = value as Record<string, unknown>;
+
+  const observations = strings(memory.observations);
+  const ruledOut = strings(memory.ruled_out_causes);
+  if (!observations || !ruledOut || typeof memory.suspected_issue !== 'string') return null;
+  if (!Array.isArray(memory.answered_questions)) return null;
+
+  const answered = memory.answered_questions.filter(
+    (qa): qa is { question: string; answer: string } =>
+      !!qa && typeof qa.question === 'string' && typeof qa.answer === 'string'
+  );
+
+  return {
+    observations: observations.slice(-MAX_OBSERVATIONS),
+    answered_questions: answered.slice(-MAX_ANSWERED_QUESTIONS),
+    ruled_out_causes: ruledOut.slice(-MAX_RULED_OUT),
+    suspected_issue: memory.suspected_issue.trim(),
+    updated_through: updatedThrough
+  };
+}
+
+const turnText = (turn: ChatHistory[number]) =>
+  turn.parts.map(part => part.text || '').join(' ').trim();
+
+const truncate = (text: string, maxLength = 160) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+
+const firstSentence = (text: string) => truncate(text.split(/(?<=[.!?])\s/)[0] || text);
+
+/**
+ * Fold new turns into the memory without the model (used when the AI update fails)
+ * Keeps the first sentence of each reply as an observation and pairs questions with the next user answer
+ */
+export function foldTurnsLocally(memory: ConversationMemory, turns: ChatHistory, updatedThrough: number): ConversationMemory {
+  const observations = [...memory.observations];
+  const answered = [...memory.answered_questions];
+
+  turns.forEach((turn, idx) => {
+    const text = turnText(turn);
+    if (!text || turn.role !== 'model') return;
+
+    observations.push(firstSentence(text));
+
+    const questions = text
+      .split('\n')
+      .map(line => line.trim().replace(/^\d+[.)]\s*/, ''))
+      .filter(line => line.endsWith('?'));
+    const reply = turns[idx + 1];
+    if (questions.length > 0 && reply?.role === 'user' && turnText(reply)) {
+      answered.push({ question: truncate(questions.join(' / ')), answer: truncate(turnText(reply)) });
+    }
+  });
+
+  return {
+    ...memory,
+    observations: observations.slice(-MAX_OBSERVATIONS),
+    answered_questions: answered.slice(-MAX_ANSWERED_QUESTIONS),
+    updated_through: updatedThrough
+  };
+}
+
+/**
+ * Whether the memory holds anything worth sending
+ */
+export function hasMemory(memory: ConversationMemory | null): memory is ConversationMemory {
+  return !!memory && (
+    memory.observations.length > 0
+    || memory.answered_questions.length > 0
+    || memory.ruled_out_causes.length > 0
+    || !!memory.suspected_issue
+  );
+}
+
+/**
+ * Render the memory as a compact text block
+ */
+export function formatConversationMemory(memory: ConversationMemory): string {
+  const lines = ['CONVERSATION SUMMARY SO FAR:'];
+
+  if (memory.suspected_issue) {
+    lines.push(`Suspected issue: ${memory.suspected_issue}`);
+  }
+  if (memory.observations.length > 0) {
+    lines.push('Observations:', ...memory.observations.map(o => `- ${o}`));
+  }
+  if (memory.answered_questions.length > 0) {
+    lines.push('Already answered (do not ask again):', ...memory.answered_questions.map(qa => `- ${qa.question} -> ${qa.answer}`));
+  }
+  if (memory.ruled_out_causes.length > 0) {
+    lines.push('Ruled out:', ...memory.ruled_out_causes.map(c => `- ${c}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * History turns that carry the memory, placed before the recent messages
+ * Gemini history must start with a user turn and alternate roles
+ */
+export function toMemoryHistory(memory: ConversationMemory | null): ChatHistory {
+  if (!hasMemory(memory)) return [];
+
+  return [
+    { role: 'user', parts: [{ text: formatConversationMemory(memory) }] },
+    { role: 'model', parts: [{ text: 'Got it - I will use this summary along with the latest messages.' }] }
+  ];
+}
@@ -0,0 +1,210 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type { MaintenancePart } from './partsService';
+
+/**
+ * A low-high range in US dollars (or hours)
+ */
+export interface Range {
+  low: number;
+  high: number;
+}
+
+/**
+ * One part or tool to buy, priced from the user's inventory when known
+ */
+export interface CostLine extends Range {
+  name: string;
+  /** 'inventory' when the price comes from MaintenancePart.estimatedCost */
+  source: 'inventory' | 'estimate';
+}
+
+/**
+ * What a diagnosed repair should cost and take, DIY versus hiring a pro
+ */
+export interface CostEstimate {
+  parts: CostLine[];
+  /** Tools the user would need to buy (owned tools are left out) */
+  tools_to_buy: CostLine[];
+  /** Needed tools already in the user's inventory */
+  owned_tools: string[];
+  diy_hours: Range;
+  /** Typical professional price for the job, parts and labor included */
+  pro_cost: Range;
+  /** What the pro range assumes, e.g. "plumber service call plus 1-2 hours labor" */
+  pro_basis: string;
+  /** Area the pro range was priced for, e.g. "ZIP 972xx", null when the profile has no ZIP */
+  region: string | null;
+  estimated_at: string;
+}
+
+/**
+ * AI response before inventory prices and owned tools are applied
+ */
+export type AiCostEstimate = Pick<CostEstimate, 'diy_hours' | 'pro_cost' | 'pro_basis'> & {
+  parts: Array<Range & { name: string }>;
+  tools: Array<Range & { name: string }>;
+};
+
+const LINE_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      name: { type: SchemaType.STRING },
+      cost_low: { type: SchemaType.NUMBER, description: "Low end retail price in USD" },
+      cost_high: { type: SchemaType.NUMBER, description: "High end retail price in USD" }
+    },
+    required: ["name", "cost_low", "cost_high"]
+  }
+};
+
+export const COST_ESTIMATE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    parts: LINE_SCHEMA,
+    tools: LINE_SCHEMA,
+    diy_hours_low: { type: SchemaType.NUMBER, description: "Hours for a beginner DIYer, low end" },
+    diy_hours_high: { type: SchemaType.NUMBER, description: "Hours for a beginner DIYer, high end" },
+    pro_cost_low: { type: SchemaType.NUMBER, description: "Professional price in USD for the job including parts, low end" },
+    pro_cost_high: { type: SchemaType.NUMBER, description: "Professional price in USD for the job including parts, high end" },
+    pro_basis: { type: SchemaType.STRING, description: "Which trade and what the pro price assumes" }
+  },
+  required: ["parts", "tools", "diy_hours_low", "diy_hours_high", "pro_cost_low", "pro_cost_high", "pro_basis"]
+};
+
+/**
+ * Non-negative range from two model numbers, swapped if given high-first
+ */
+function toRange(low: unknown, high: unknown): Range | null {
+  if (typeof low !== 'number' || typeof high !== 'number' || !isFinite(low) || !isFinite(high)) return null;
+  if (low < 0 || high < 0) return null;
+  return low <= high ? { low, high } : { low: high, high: low };
+}
+
+function toLines(value: unknown): Array<Range & { name: string }> | null {
+  if (!Array.isArray(value)) return null;
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const { name, cost_low, cost_high } = item as Record<string, unknown>;
+    const range = toRange(cost_low, cost_high);
+    return typeof name === 'string' && name.trim() && range ? [{ name: name.trim(), ...range }] : [];
+  });
+}
+
+/**
+ * Runtime validation for a cost estimate returned by the model
+ */
+export function validateCostEstimate(value: unknown): AiCostEstimate | null {
+  if (!value || typeof value !== 'object') return null;
+  const estimate = value as Record<string, unknown>;
+
+  const parts = toLines(estimate.parts);
+  const tools = toLines(estimate.tools);
+  const diyHours = toRange(estimate.diy_hours_low, estimate.diy_hours_high);
+  const proCost = toRange(estimate.pro_cost_low, estimate.pro_cost_high);
+  if (!parts || !tools || !diyHours || !proCost) return null;
+
+  return {
+    parts,
+    tools,
+    diy_hours: diyHours,
+    pro_cost: proCost,
+    pro_basis: typeof estimate.pro_basis === 'string' ? estimate.pro_basis.trim() : ''
+  };
+}
+
+/**
+ * Area label for pro pricing from the profile ZIP - only the 3-digit prefix is shared
+ */
+export function costRegion(zipCode: string | null | undefined): string | null {
+  const prefix = (zipCode || '').trim().match(/^\d{3}/);
+  return prefix ? `ZIP ${prefix[0]}xx` : null;
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * The inventory item a part or tool name refers to, matching either way round
+ * ("Flapper" matches "Universal toilet flapper")
+ */
+function findInventoryItem(name: string, inventory: MaintenancePart[], category: MaintenancePart['category']): MaintenancePart | undefined {
+  const wanted = normalize(name);
+  return inventory.find(item => {
+    if (item.category !== category) return false;
+    const owned = normalize(item.name);
+    return owned === wanted || owned.includes(wanted) || wanted.includes(owned);
+  });
+}
+
+/**
+ * Apply the user's inventory to the AI estimate: known part prices replace estimates,
+ * and tools already owned move out of the shopping total
+ */
+export function buildCostEstimate(ai: AiCostEstimate, inventory: MaintenancePart[], region: string | null): CostEstimate {
+  const parts = ai.parts.map(part => {
+    const known = findInventoryItem(part.name, inventory, 'part');
+    return known?.estimatedCost != null
+      ? { name: part.name, low: known.estimatedCost, high: known.estimatedCost, source: 'inventory' as const }
+      : { ...part, source: 'estimate' as const };
+  });
+
+  const ownedTools: string[] = [];
+  const toolsToBuy: CostLine[] = [];
+  for (const tool of ai.tools) {
+    if (findInventoryItem(tool.name, inventory, 'tool')) {
+      ownedTools.push(tool.name);
+    } else {
+      toolsToBuy.push({ ...tool, source: 'estimate' });
+    }
+  }
+
+  return {
+    parts,
+    tools_to_buy: toolsToBuy,
+    owned_tools: ownedTools,
+    diy_hours: ai.diy_hours,
+    pro_cost: ai.pro_cost,
+    pro_basis: ai.pro_basis,
+    region,
+    estimated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Sum of a list of cost lines
+ */
+export function totalCost(lines: CostLine[]): Range {
+  return lines.reduce((total, line) => ({ low: total.low + line.low, high: total.high + line.high }), { low: 0, high: 0 });
+}
+
+/**
+ * Total out-of-pocket for doing it yourself: parts plus tools to buy
+ */
+export function diyCost(estimate: CostEstimate): Range {
+  const parts = totalCost(estimate.parts);
+  const tools = totalCost(estimate.tools_to_buy);
+  return { low: parts.low + tools.low, high: parts.high + tools.high };
+}
+
+/**
+ * "$40-$65", or "$40" when both ends round to the same dollar
+ */
+export function formatCostRange(range: Range): string {
+  const low = Math.round(range.low);
+  const high = Math.round(range.high);
+  return low === high ? `$${low}` : `$${low}-$${high}`;
+}
+
+/**
+ * "30-45 min", "1-2 hrs" or "about 1 hr"
+ */
+export function formatHoursRange(range: Range): string {
+  if (range.high < 1) {
+    const low = Math.round(range.low * 60);
+    const high = Math.round(range.high * 60);
+    return low === high ? `about ${low} min` : `${low}-${high} min`;
+  }
+  const low = Math.round(range.low * 2) / 2;
+  const high = Math.round(range.high * 2) / 2;
+  return low === high ? `about ${low} hr${low === 1 ? '' : 's'}` : `${low}-${high} hrs`;
+}
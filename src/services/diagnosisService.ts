@@ -0,0 +1,468 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type { SafetyAssessment } from "./safetyService";
+import type { CostEstimate } from "./costEstimateService";
+
+export type DiagnosisDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+/**
+ * Which path produced a diagnosis:
+ * - 'schema': typed JSON returned by the model and validated at runtime
+ * - 'text': regex-parsed from the free-text repair guide (fallback)
+ */
+export type DiagnosisSource = 'schema' | 'text';
+
+/**
+ * One candidate cause, ranked against the others in a diagnosis
+ */
+export interface DiagnosisHypothesis {
+  cause: string;
+  /** 0-100 */
+  confidence: number;
+  /** Quick check that tells this cause apart, e.g. "If the tank refills every 10 minutes, it's the flapper" */
+  distinguishing_test: string;
+}
+
+export interface DiagnosisResult {
+  title: string;
+  summary: string;
+  parts_needed: string[];
+  tools_needed: string[];
+  steps: string[];
+  difficulty?: DiagnosisDifficulty;
+  possible_causes?: string[];
+  prevention_tips?: string[];
+  tutorial_search_term?: string;
+  /** Candidate causes, most likely first */
+  hypotheses?: DiagnosisHypothesis[];
+  /** Index of the hypothesis the parts and steps fix (0 unless the user switched) */
+  active_hypothesis?: number;
+  source?: DiagnosisSource;
+  /** Prompt template version(s) that produced this diagnosis, see promptRegistry */
+  prompt_version?: string;
+  /** Hazard classification from the safety stage, see safetyService */
+  safety?: SafetyAssessment;
+  /** When the user acknowledged the risks of a high-risk guide, unlocking its steps (see safetyService.stepsLocked) */
+  safety_acknowledged_at?: string;
+  /** DIY versus pro cost and time, added after the guide is shown (see costEstimateService) */
+  cost_estimate?: CostEstimate;
+}
+
+const DIFFICULTIES: DiagnosisDifficulty[] = ['Easy', 'Medium', 'Hard'];
+
+/**
+ * Response schema for the "final guide" mode
+ * Keys mirror DiagnosisResult so a validated response maps 1:1
+ */
+export const REPAIR_GUIDE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    title: { type: SchemaType.STRING, description: "Clear title of the identified issue" },
+    summary: { type: SchemaType.STRING, description: "Brief explanation of what's wrong and why it's happening" },
+    difficulty: { type: SchemaType.STRING, format: "enum", enum: DIFFICULTIES },
+    possible_causes: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "2-3 most likely causes"
+    },
+    parts_needed: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Simple, non brand-specific part names"
+    },
+    tools_needed: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Simple tool names"
+    },
+    steps: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Detailed repair steps in order, without numbering"
+    },
+    prevention_tips: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "2-3 tips to prevent this issue in the future"
+    },
+    tutorial_search_term: { type: SchemaType.STRING, description: "A 4-word search term for a video tutorial" },
+    hypotheses: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          cause: { type: SchemaType.STRING, description: "Short name of the candidate cause" },
+          confidence: { type: SchemaType.INTEGER, description: "0-100 confidence this is the cause" },
+          distinguishing_test: { type: SchemaType.STRING, description: "A quick check that confirms or rules out this cause" }
+        },
+        required: ["cause", "confidence", "distinguishing_test"]
+      },
+      description: "2-4 candidate causes ranked most likely first; the guide fixes the first"
+    }
+  },
+  required: [
+    "title",
+    "summary",
+    "difficulty",
+    "possible_causes",
+    "parts_needed",
+    "tools_needed",
+    "steps",
+    "prevention_tips",
+    "tutorial_search_term",
+    "hypotheses"
+  ]
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const cleanList = (items: string[]): string[] =>
+  items.map(item => item.trim()).filter(item => item.length > 0);
+
+/**
+ * Keep well-formed hypotheses, confidence clamped to 0-100
+ * Missing or malformed lists become empty rather than failing the guide
+ */
+function cleanHypotheses(value: unknown): DiagnosisHypothesis[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const { cause, confidence, distinguishing_test } = item as Record<string, unknown>;
+    if (typeof cause !== 'string' || !cause.trim() || typeof confidence !== 'number' || !isFinite(confidence)) return [];
+    return [{
+      cause: cause.trim(),
+      confidence: Math.round(Math.min(100, Math.max(0, confidence))),
+      distinguishing_test: typeof distinguishing_test === 'string' ? distinguishing_test.trim() : ''
+    }];
+  });
+}
+
+/**
+ * Runtime validation for a structured repair guide
+ * The model can still drift from the schema, so nothing is trusted blindly
+ * @param value - Parsed JSON from the model
+ * @returns A DiagnosisResult, or null if the value does not match the schema
+ */
+export function validateRepairGuide(value: unknown): DiagnosisResult | null {
+  if (!value || typeof value !== 'object') return null;
+  const guide = value as Record<string, unknown>;
+
+  if (typeof guide.title !== 'string' || !guide.title.trim()) return null;
+  if (typeof guide.summary !== 'string') return null;
+  if (typeof guide.difficulty !== 'string' || !DIFFICULTIES.includes(guide.difficulty as DiagnosisDifficulty)) return null;
+  if (typeof guide.tutorial_search_term !== 'string') return null;
+
+  const lists = ['possible_causes', 'parts_needed', 'tools_needed', 'steps', 'prevention_tips'] as const;
+  for (const key of lists) {
+    if (!isStringArray(guide[key])) return null;
+  }
+
+  const steps = cleanList(guide.steps as string[]);
+  if (steps.length === 0) return null;
+
+  return {
+    title: guide.title.trim(),
+    summary: guide.summary.trim(),
+    difficulty: guide.difficulty as DiagnosisDifficulty,
+    possible_causes: cleanList(guide.possible_causes as string[]),
+    parts_needed: cleanList(guide.parts_needed as string[]),
+    tools_needed: cleanList(guide.tools_needed as string[]),
+    steps,
+    prevention_tips: cleanList(guide.prevention_tips as string[]),
+    tutorial_search_term: guide.tutorial_search_term.trim(),
+    hypotheses: cleanHypotheses(guide.hypotheses),
+    active_hypothesis: 0,
+    source: 'schema'
+  };
+}
+
+/**
+ * Collect "- item" / "* item" lines from a section of text
+ * maxLength guards part/tool names against stray sentences
+ */
+const extractBulletList = (sectionText: string, maxLength = 100): string[] => {
+  const items: string[] = [];
+  for (const line of sectionText.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+      const item = trimmed.replace(/^[-*]\s+/, '').trim();
+      if (item && item.length > 1 && item.length < maxLength) {
+        items.push(item);
+      }
+    }
+  }
+  return items;
+};
+
+/**
+ * Video search term for a guide title, e.g. "Leaking Toilet Flapper" -> "leaking toilet flapper repair"
+ */
+const searchTermFromTitle = (title: string): string => {
+  const words = title.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/\s+/).filter(Boolean).slice(0, 4);
+  return [...words, 'repair'].join(' ');
+};
+
+/**
+ * Extract and parse structured diagnosis from AI response text
+ * Parses the formatted text output (IDENTIFIED ISSUE, etc.), not JSON
+ * Used as the fallback path when schema validation fails
+ * Returns: { cleanedText, diagnosis }
+ */
+export function parseDiagnosisText(responseText: string): { cleanedText: string; diagnosis: DiagnosisResult | null } {
+  const diagnosis: DiagnosisResult = {
+    title: '',
+    summary: '',
+    parts_needed: [],
+    tools_needed: [],
+    steps: [],
+    source: 'text'
+  };
+
+  // Extract title from IDENTIFIED ISSUE
+  const titleMatch = responseText.match(/\*{0,2}IDENTIFIED ISSUE:\*{0,2}\s*([^\n]+)/i);
+  if (titleMatch) {
+    diagnosis.title = titleMatch[1].trim();
+  }
+
+  // Extract summary from WHAT'S WRONG
+  const summaryMatch = responseText.match(/\*{0,2}WHAT'S WRONG:\*{0,2}[\s\S]*?(?=\*{0,2}POSSIBLE CAUSES:\*{0,2}|\*{0,2}DIFFICULTY:\*{0,2}|\*{0,2}REQUIRED PARTS:\*{0,2}|\*{0,2}REQUIRED TOOLS:\*{0,2}|\*{0,2}REPAIR STEPS:\*{0,2}|$)/i);
+  if (summaryMatch) {
+    diagnosis.summary = summaryMatch[0].replace(/\*{0,2}WHAT'S WRONG:\*{0,2}/i, '').trim();
+  }
+
+  // Extract causes from POSSIBLE CAUSES section
+  const causesMatch = responseText.match(/\*{0,2}POSSIBLE CAUSES:\*{0,2}[\s\S]*?(?=\*{0,2}DIFFICULTY:\*{0,2}|\*{0,2}REQUIRED PARTS:\*{0,2}|\*{0,2}REQUIRED TOOLS:\*{0,2}|\*{0,2}REPAIR STEPS:\*{0,2}|$)/i);
+  if (causesMatch) {
+    diagnosis.possible_causes = extractBulletList(causesMatch[0], Infinity);
+  }
+
+  // Extract difficulty
+  const difficultyMatch = responseText.match(/\*{0,2}DIFFICULTY:\*{0,2}\s*(Easy|Medium|Hard)/i);
+  if (difficultyMatch) {
+    const value = difficultyMatch[1].toLowerCase();
+    diagnosis.difficulty = DIFFICULTIES.find(d => d.toLowerCase() === value);
+  }
+
+  // Extract parts from REQUIRED PARTS section
+  const partsMatch = responseText.match(/\*{0,2}REQUIRED PARTS:\*{0,2}[\s\S]*?(?=\*{0,2}REQUIRED TOOLS:\*{0,2}|\*{0,2}REPAIR STEPS:\*{0,2}|\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
+  if (partsMatch) {
+    diagnosis.parts_needed = extractBulletList(partsMatch[0]);
+  }
+
+  // Extract tools from REQUIRED TOOLS section
+  const toolsMatch = responseText.match(/\*{0,2}REQUIRED TOOLS:\*{0,2}[\s\S]*?(?=\*{0,2}REPAIR STEPS:\*{0,2}|\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
+  if (toolsMatch) {
+    diagnosis.tools_needed = extractBulletList(toolsMatch[0]);
+  }
+
+  // Extract steps from REPAIR STEPS section
+  const stepsMatch = responseText.match(/\*{0,2}REPAIR STEPS:\*{0,2}[\s\S]*?(?=\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i);
+  if (stepsMatch) {
+    for (const line of stepsMatch[0].split('\n')) {
+      const stepMatch = line.trim().match(/^\d+\.\s+(.+)/);
+      if (stepMatch) {
+        diagnosis.steps.push(stepMatch[1].trim());
+      }
+    }
+  }
+
+  // Extract prevention tips
+  const tipsMatch = responseText.match(/\*{0,2}PREVENTION TIPS:\*{0,2}[\s\S]*?(?=\*{0,2}TUTORIAL SEARCH TERM:\*{0,2}|---|$)/i);
+  if (tipsMatch) {
+    diagnosis.prevention_tips = extractBulletList(tipsMatch[0], Infinity);
+  }
+
+  // Extract the video search term, or build one from the title when the reply left it out
+  const searchTermMatch = responseText.match(/\*{0,2}TUTORIAL SEARCH TERM:\*{0,2}\s*([^\n]+)/i);
+  const searchTerm = searchTermMatch?.[1].replace(/^["*\s]+|["*\s]+$/g, '');
+  if (diagnosis.title) {
+    diagnosis.tutorial_search_term = searchTerm || searchTermFromTitle(diagnosis.title);
+  }
+
+  // Find where structured content ends (before JSON if present)
+  let cutoffIndex = responseText.length;
+
+  // Look for "JSON" keyword or JSON object start
+  const jsonKeywordIndex = responseText.search(/\bJSON\b/i);
+  if (jsonKeywordIndex !== -1) {
+    cutoffIndex = jsonKeywordIndex;
+  } else {
+    // Look for JSON object start
+    const jsonStartIndex = responseText.search(/\{[\s\S]*?"FINAL_DIAGNOSIS"/i);
+    if (jsonStartIndex !== -1) {
+      cutoffIndex = jsonStartIndex;
+    }
+  }
+
+  const cleanedText = responseText.substring(0, cutoffIndex).trim();
+
+  return {
+    cleanedText,
+    diagnosis: diagnosis.title ? diagnosis : null
+  };
+}
+
+/**
+ * Reply text with its REPAIR STEPS section replaced by a pointer to the guide card
+ * Used for chat replies whose guide is locked until the user acknowledges the risks.
+ */
+export function hideRepairSteps(responseText: string): string {
+  return responseText.replace(
+    /\*{0,2}REPAIR STEPS:\*{0,2}[\s\S]*?(?=\*{0,2}PREVENTION TIPS:\*{0,2}|$)/i,
+    'REPAIR STEPS: Hidden until you acknowledge the risks in the repair guide below.\n\n'
+  );
+}
+
+/**
+ * Guide sections recognized while a reply is streaming
+ */
+export type GuideSection = 'title' | 'summary' | 'causes' | 'difficulty' | 'parts' | 'tools' | 'steps' | 'tips' | 'tutorial';
+
+const SECTION_HEADERS: Record<string, GuideSection> = {
+  "IDENTIFIED ISSUE": 'title',
+  "WHAT'S WRONG": 'summary',
+  "POSSIBLE CAUSES": 'causes',
+  "DIFFICULTY": 'difficulty',
+  "REQUIRED PARTS": 'parts',
+  "REQUIRED TOOLS": 'tools',
+  "REPAIR STEPS": 'steps',
+  "PREVENTION TIPS": 'tips',
+  "TUTORIAL SEARCH TERM": 'tutorial'
+};
+
+const HEADER_LINE = /^\*{0,2}(IDENTIFIED ISSUE|WHAT'S WRONG|POSSIBLE CAUSES|DIFFICULTY|REQUIRED PARTS|REQUIRED TOOLS|REPAIR STEPS|PREVENTION TIPS|TUTORIAL SEARCH TERM):\*{0,2}\s*(.*)$/i;
+
+export interface GuideStreamParser {
+  /**
+   * Feed the next chunk of the reply
+   * @returns A snapshot of the guide so far when a complete line changed it (once a title exists), else null
+   */
+  push(chunk: string): DiagnosisResult | null;
+  /**
+   * Final reconciliation once the stream ends
+   * Re-parses the whole reply with parseDiagnosisText so the result matches the non-streaming path
+   */
+  finish(): { cleanedText: string; diagnosis: DiagnosisResult | null };
+}
+
+/**
+ * Incremental parser for the chat's text repair guide
+ * Works line by line as chunks arrive, so the summary card can fill in
+ * (title first, then parts, tools and steps) before the reply is finished.
+ */
+export function createGuideStreamParser(): GuideStreamParser {
+  let fullText = '';
+  let pendingLine = '';
+  let section: GuideSection | null = null;
+  const guide: DiagnosisResult = {
+    title: '',
+    summary: '',
+    parts_needed: [],
+    tools_needed: [],
+    steps: [],
+    possible_causes: [],
+    prevention_tips: [],
+    source: 'text'
+  };
+
+  const addBullet = (list: string[], line: string, maxLength: number) => {
+    const item = line.replace(/^[-*]\s+/, '').trim();
+    if (item.length > 1 && item.length < maxLength) list.push(item);
+  };
+
+  /**
+   * Apply one complete line; returns whether the guide changed
+   */
+  const consumeLine = (rawLine: string): boolean => {
+    const line = rawLine.trim();
+    if (!line) return false;
+
+    if (line === '---') {
+      section = null;
+      return false;
+    }
+
+    const header = line.match(HEADER_LINE);
+    if (header) {
+      section = SECTION_HEADERS[header[1].toUpperCase()];
+      const rest = header[2].replace(/^\*+|\*+$/g, '').trim();
+      if (!rest) return false;
+      if (section === 'title') {
+        guide.title = rest;
+        return true;
+      }
+      return consumeLine(rest);
+    }
+
+    const isBullet = /^[-*]\s+/.test(line);
+    switch (section) {
+      case 'summary':
+        guide.summary = guide.summary ? `${guide.summary} ${line}` : line;
+        return true;
+      case 'causes':
+        if (isBullet) addBullet(guide.possible_causes as string[], line, Infinity);
+        return isBullet;
+      case 'difficulty': {
+        const value = line.match(/\b(Easy|Medium|Hard)\b/i)?.[1].toLowerCase();
+        guide.difficulty = DIFFICULTIES.find(d => d.toLowerCase() === value) || guide.difficulty;
+        return !!value;
+      }
+      case 'parts':
+        if (isBullet) addBullet(guide.parts_needed, line, 100);
+        return isBullet;
+      case 'tools':
+        if (isBullet) addBullet(guide.tools_needed, line, 100);
+        return isBullet;
+      case 'tips':
+        if (isBullet) addBullet(guide.prevention_tips as string[], line, Infinity);
+        return isBullet;
+      case 'tutorial':
+        guide.tutorial_search_term = line.replace(/^"+|"+$/g, '');
+        section = null;
+        return true;
+      case 'steps': {
+        const step = line.match(/^\d+\.\s+(.+)/);
+        if (step) {
+          guide.steps.push(step[1].trim());
+          return true;
+        }
+        // Indented continuation of the previous step
+        if (guide.steps.length > 0 && /^\s/.test(rawLine)) {
+          guide.steps[guide.steps.length - 1] += ` ${line}`;
+          return true;
+        }
+        return false;
+      }
+      default:
+        return false;
+    }
+  };
+
+  const snapshot = (): DiagnosisResult => ({
+    ...guide,
+    parts_needed: [...guide.parts_needed],
+    tools_needed: [...guide.tools_needed],
+    steps: [...guide.steps],
+    possible_causes: [...(guide.possible_causes || [])],
+    prevention_tips: [...(guide.prevention_tips || [])]
+  });
+
+  return {
+    push(chunk) {
+      fullText += chunk;
+      const lines = (pendingLine + chunk).split('\n');
+      pendingLine = lines.pop() || '';
+
+      let changed = false;
+      for (const line of lines) {
+        changed = consumeLine(line) || changed;
+      }
+
+      return changed && guide.title ? snapshot() : null;
+    },
+
+    finish() {
+      return parseDiagnosisText(fullText);
+    }
+  };
+}
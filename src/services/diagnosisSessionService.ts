@@ -0,0 +1,317 @@
+import { supabase } from './supabaseClient';
+import type { DiagnosisResult } from './diagnosisService';
+import type { ConversationMemory } from './conversationMemoryService';
+import type { SessionImage } from './imageMemoryService';
+import type { QuickReplies } from './quickReplyService';
+import type { ManualCitation } from './manualService';
+import { deleteMedia, getMediaUrl, uploadMedia } from './mediaService';
+
+/**
+ * One chat message as stored in a diagnosis session
+ * images/audio hold storage paths once synced (data URLs until then)
+ */
+export interface SessionMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  images?: string[];
+  audio?: string;
+  /** Earlier photos ("Photo N") re-attached to this message */
+  referenced_images?: number[];
+  /** The user pressed Stop before the reply finished */
+  stopped?: boolean;
+  /** Phase marker and suggested answers from an assistant reply */
+  quick_replies?: QuickReplies;
+  /** Owner's manual pages an assistant reply cited */
+  manual_sources?: ManualCitation[];
+  /** The reply's repair steps are hidden until its guide's risks are acknowledged */
+  steps_locked?: boolean;
+  timestamp: number;
+}
+
+export interface DiagnosisSession {
+  id: string;
+  title: string;
+  messages: SessionMessage[];
+  diagnosis: DiagnosisResult | null;
+  /** Rolling summary used as model context (see conversationMemoryService) */
+  memory?: ConversationMemory | null;
+  /** Numbered photo registry with thumbnails and descriptions (see imageMemoryService) */
+  images?: SessionImage[];
+  repair_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const SESSIONS_CACHE_KEY = 'fixitHeroDiagnosisSessions';
+const ACTIVE_SESSION_KEY = 'fixitHeroActiveSession';
+
+/**
+ * Sessions kept in the local cache
+ */
+const MAX_CACHED_SESSIONS = 20;
+
+/**
+ * Display value (data URL or signed URL) -> storage path, for media uploaded or resolved this page load
+ * Lets autosaves skip re-uploading and map signed URLs back to their paths.
+ * Uploads are stored while still in flight, so an autosave that lands mid-upload waits for it
+ * instead of uploading the same data URL again.
+ */
+const mediaReferences = new Map<string, Promise<string>>();
+
+const isDataUrl = (value: string) => value.startsWith('data:');
+
+/* -------------------------------------------------------------------------- */
+/* LOCAL CACHE                                                                */
+/* -------------------------------------------------------------------------- */
+
+function readCache(): DiagnosisSession[] {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_CACHE_KEY) || '[]');
+  } catch (error) {
+    console.warn('Could not read session cache:', error);
+    return [];
+  }
+}
+
+function writeCache(sessions: DiagnosisSession[]): void {
+  const recent = [...sessions]
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, MAX_CACHED_SESSIONS);
+
+  try {
+    localStorage.setItem(SESSIONS_CACHE_KEY, JSON.stringify(recent));
+  } catch (error) {
+    // Quota exceeded - usually unsynced media; keep the text so the conversation survives
+    console.warn('Session cache full, dropping unsynced media:', error);
+    const textOnly = recent.map(session => ({
+      ...session,
+      messages: session.messages.map(msg => ({
+        ...msg,
+        images: msg.images?.filter(image => !isDataUrl(image)),
+        audio: msg.audio && !isDataUrl(msg.audio) ? msg.audio : undefined
+      }))
+    }));
+    try {
+      localStorage.setItem(SESSIONS_CACHE_KEY, JSON.stringify(textOnly));
+    } catch (retryError) {
+      console.error('Could not write session cache:', retryError);
+    }
+  }
+}
+
+function cacheSession(session: DiagnosisSession): void {
+  writeCache([session, ...readCache().filter(s => s.id !== session.id)]);
+}
+
+/**
+ * Session the Scanner should reopen when it mounts
+ */
+export function getActiveSessionId(): string | null {
+  return localStorage.getItem(ACTIVE_SESSION_KEY);
+}
+
+export function setActiveSessionId(sessionId: string | null): void {
+  if (sessionId) {
+    localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+  } else {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* MEDIA REFERENCES                                                           */
+/* -------------------------------------------------------------------------- */
+
+async function toStorageReference(value: string, sessionId: string): Promise<string> {
+  const known = mediaReferences.get(value);
+  if (known) return known;
+  if (!isDataUrl(value)) return value;
+
+  const upload = uploadMedia(value, `sessions/${sessionId}`).then(path => {
+    if (path) return path;
+    // Keep the data URL and retry on the next save
+    mediaReferences.delete(value);
+    return value;
+  });
+  mediaReferences.set(value, upload);
+  return upload;
+}
+
+/**
+ * Replace inline media with storage references
+ */
+async function withStorageReferences(sessionId: string, messages: SessionMessage[]): Promise<SessionMessage[]> {
+  return Promise.all(messages.map(async (msg) => ({
+    ...msg,
+    images: msg.images ? await Promise.all(msg.images.map(image => toStorageReference(image, sessionId))) : undefined,
+    audio: msg.audio ? await toStorageReference(msg.audio, sessionId) : undefined
+  })));
+}
+
+async function toDisplayUrl(value: string): Promise<string | null> {
+  if (isDataUrl(value)) return value;
+
+  const url = await getMediaUrl(value);
+  if (url) mediaReferences.set(url, Promise.resolve(value));
+  return url;
+}
+
+/**
+ * Resolve storage references to URLs the browser can show
+ */
+export async function resolveSessionMedia(messages: SessionMessage[]): Promise<SessionMessage[]> {
+  return Promise.all(messages.map(async (msg) => ({
+    ...msg,
+    images: msg.images
+      ? (await Promise.all(msg.images.map(toDisplayUrl))).filter((url): url is string => !!url)
+      : undefined,
+    audio: msg.audio ? (await toDisplayUrl(msg.audio)) || undefined : undefined
+  })));
+}
+
+const mediaPaths = (session: DiagnosisSession): string[] =>
+  session.messages
+    .flatMap(msg => [...(msg.images || []), ...(msg.audio ? [msg.audio] : [])])
+    .filter(value => !isDataUrl(value));
+
+/* -------------------------------------------------------------------------- */
+/* SESSIONS                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Save a conversation (insert or update)
+ * Always lands in the local cache; synced to Supabase when signed in
+ * @param session - Session to save; updated_at is set here
+ * @returns The saved session with media replaced by storage references where uploads succeeded
+ */
+export async function saveDiagnosisSession(session: Omit<DiagnosisSession, 'updated_at'>): Promise<DiagnosisSession> {
+  const saved: DiagnosisSession = {
+    ...session,
+    messages: await withStorageReferences(session.id, session.messages),
+    updated_at: new Date().toISOString()
+  };
+
+  cacheSession(saved);
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return saved;
+
+    const { error } = await supabase
+      .from('diagnosis_sessions')
+      .upsert({
+        id: saved.id,
+        user_id: user.id,
+        title: saved.title,
+        messages: saved.messages,
+        diagnosis: saved.diagnosis,
+        memory: saved.memory || null,
+        images: saved.images || [],
+        repair_id: saved.repair_id,
+        created_at: saved.created_at,
+        updated_at: saved.updated_at
+      });
+
+    if (error) {
+      console.error('Error saving diagnosis session:', error);
+    }
+  } catch (error) {
+    console.error('Error in saveDiagnosisSession:', error);
+  }
+
+  return saved;
+}
+
+/**
+ * List the user's conversations, newest first
+ * Falls back to the local cache when offline or signed out
+ */
+export async function getDiagnosisSessions(): Promise<DiagnosisSession[]> {
+  const cached = readCache();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return cached;
+
+    const { data, error } = await supabase
+      .from('diagnosis_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching diagnosis sessions:', error);
+      return cached;
+    }
+
+    // Local copies that never reached the server (e.g. saved offline) are kept
+    const remote = (data || []) as DiagnosisSession[];
+    const remoteIds = new Set(remote.map(session => session.id));
+    return [...remote, ...cached.filter(session => !remoteIds.has(session.id))]
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  } catch (error) {
+    console.error('Error in getDiagnosisSessions:', error);
+    return cached;
+  }
+}
+
+/**
+ * Load one conversation, preferring whichever copy is newer
+ */
+export async function getDiagnosisSession(sessionId: string): Promise<DiagnosisSession | null> {
+  const cached = readCache().find(session => session.id === sessionId) || null;
+
+  try {
+    const { data, error } = await supabase
+      .from('diagnosis_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching diagnosis session:', error);
+      return cached;
+    }
+
+    const remote = data as DiagnosisSession | null;
+    if (!remote) return cached;
+    if (!cached) return remote;
+    return remote.updated_at >= cached.updated_at ? remote : cached;
+  } catch (error) {
+    console.error('Error in getDiagnosisSession:', error);
+    return cached;
+  }
+}
+
+/**
+ * Delete a conversation and its stored media
+ * Media still used by another conversation (an edited branch shares its earlier photos) is kept
+ */
+export async function deleteDiagnosisSession(sessionId: string): Promise<boolean> {
+  const session = await getDiagnosisSession(sessionId);
+
+  writeCache(readCache().filter(s => s.id !== sessionId));
+  if (getActiveSessionId() === sessionId) setActiveSessionId(null);
+
+  try {
+    const { error } = await supabase
+      .from('diagnosis_sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error deleting diagnosis session:', error);
+      return false;
+    }
+
+    if (session) {
+      const others = (await getDiagnosisSessions()).filter(s => s.id !== sessionId);
+      const shared = new Set(others.flatMap(mediaPaths));
+      await deleteMedia(mediaPaths(session).filter(path => !shared.has(path)));
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in deleteDiagnosisSession:', error);
+    return false;
+  }
+}
@@ -0,0 +1,101 @@
+import { GoogleGenerativeAI, type Content, type GenerationConfig, type Part } from "@google/generative-ai";
+import type { AiMedia, AiProvider, ChatHistory } from "./aiProvider";
+import { runWithRetry } from "./retryPolicy";
+
+/**
+ * Model Constants
+ * Using the latest late-2025 High-Limit models
+ */
+const PRIMARY_MODEL = "gemini-2.5-flash";
+const FALLBACK_MODEL = "gemini-2.5-flash-lite";
+
+/**
+ * Models in preference order - the retry policy skips PRIMARY_MODEL while its circuit is open
+ */
+const MODELS = [PRIMARY_MODEL, FALLBACK_MODEL];
+
+/**
+ * Extra request settings for generate
+ * history is sent as prior turns; generationConfig enables e.g. JSON mode
+ */
+interface GenerateOptions {
+  history?: ChatHistory;
+  systemInstruction?: string;
+  generationConfig?: GenerationConfig;
+  signal?: AbortSignal;
+}
+
+const toParts = (text: string, media: AiMedia[] = []): Part[] =>
+  [{ text }, ...media.map(inlineData => ({ inlineData }))];
+
+/**
+ * Gemini adapter for the AiProvider interface
+ * @param apiKey - Gemini API key (VITE_GEMINI_API_KEY)
+ */
+export function createGeminiProvider(apiKey: string): AiProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  /**
+   * One-shot request through the shared retry policy
+   */
+  function generate(prompt: string, media?: AiMedia | AiMedia[], options: GenerateOptions = {}) {
+    return runWithRetry(MODELS, async (modelName) => {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction: options.systemInstruction,
+        generationConfig: options.generationConfig
+      });
+
+      const result = await model.generateContent({
+        contents: [
+          ...((options.history || []) as Content[]),
+          { role: "user", parts: toParts(prompt, media ? [media].flat() : []) }
+        ]
+      }, { signal: options.signal });
+
+      return result.response.text();
+    }, options.signal);
+  }
+
+  return {
+    id: 'gemini',
+
+    analyzeImage: (request) => generate(request.prompt, request.image),
+
+    analyzeTextIssue: (request) => generate(request.prompt, request.image),
+
+    askClarifyingQuestion: (request) => generate(request.prompt, request.image),
+
+    refineAnalysis: (request) => generate(request.prompt, request.image),
+
+    generateStructured: (request) => generate(request.prompt, request.images, {
+      history: request.history,
+      systemInstruction: request.systemInstruction,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: request.schema
+      },
+      signal: request.signal
+    }),
+
+    async *sendMessageStream({ text, images = [], audio, history, systemInstruction, signal }) {
+      // Retries cover opening the stream; once chunks flow, errors surface to the caller
+      const result = await runWithRetry(MODELS, (modelName) => {
+        const model = genAI.getGenerativeModel({
+          model: modelName,
+          systemInstruction
+        });
+
+        const chat = model.startChat({
+          history: history as Content[]
+        });
+
+        return chat.sendMessageStream(toParts(text, audio ? [...images, audio] : images), { signal });
+      }, signal);
+
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    }
+  };
+}
@@ -1,85 +1,62 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { toast } from "sonner";
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(apiKey);
+import {
+  getAiProvider,
+  toBase64Data,
+  toMimeType,
+  type ChatHistory
+} from "./aiProvider";
+import {
+  REPAIR_GUIDE_SCHEMA,
+  parseDiagnosisText,
+  validateRepairGuide,
+  type DiagnosisResult,
+  type DiagnosisSource
+} from "./diagnosisService";
+import { renderPrompt } from "./promptRegistry";
+import {
+  SAFETY_SCHEMA,
+  classifyHazards,
+  mergeSafetyAssessments,
+  validateSafetyAssessment,
+  type SafetyAssessment
+} from "./safetyService";
+import {
+  CONVERSATION_MEMORY_SCHEMA,
+  foldTurnsLocally,
+  validateConversationMemory,
+  type ConversationMemory
+} from "./conversationMemoryService";
+import { IMAGE_DESCRIPTION_SCHEMA, validateImageDescriptions } from "./imageMemoryService";
+import {
+  STEP_ANSWER_SCHEMA,
+  STEP_PHOTO_CHECK_SCHEMA,
+  formatGuideForPrompt,
+  formatStepQuestions,
+  validateStepAnswer,
+  validateStepPhotoCheck,
+  type GuidedRepairGuide,
+  type StepPhotoCheck,
+  type StepQuestion
+} from "./guidedRepairService";
+import {
+  VERIFICATION_SCHEMA,
+  validateVerificationResult,
+  type VerificationResult
+} from "./repairVerificationService";
+import { LABEL_SCAN_SCHEMA, validateLabelScan, type LabelScan } from "./labelScanService";
+import { COST_ESTIMATE_SCHEMA, validateCostEstimate, type AiCostEstimate } from "./costEstimateService";
+import { MANUAL_PAGE_SCHEMA, formatManualPassages, validateManualPage, type ManualPassage } from "./manualService";
+import { acquireAiSlot, scheduleAiRequest } from "./requestScheduler";
+import { isAbortError } from "./retryPolicy";
+
+export type { ChatHistory } from "./aiProvider";
 
 /**
- * Model Constants
- * Using the latest late-2025 High-Limit models
+ * Wrap base64 image data (with or without data:image prefix) for a provider request
  */
-const PRIMARY_MODEL = "gemini-2.5-flash";
-const FALLBACK_MODEL = "gemini-2.5-flash-lite";
-
-/**
- * Utility for pausing execution during retries
- */
-const wait = (ms: number) => new Promise((res) => setTimeout(res, ms));
-
-/**
- * Core Orchestrator
- * Handles model switching, exponential backoff, and user notifications
- */
-async function tryWithFallback(prompt: string, imageData?: any) {
-  const maxRetries = 2;
-  const baseDelay = 1500;
-  let toastId: string | number | null = null;
-
-  const attemptRequest = async (modelName: string, retryCount = 0): Promise<string> => {
-    try {
-      const model = genAI.getGenerativeModel({ model: modelName });
-      
-      // Structure content based on presence of image
-      const content = imageData
-        ? [prompt, { inlineData: { data: imageData, mimeType: "image/jpeg" } }]
-        : [prompt];
-
-      const result = await model.generateContent(content);
-      
-      if (toastId) toast.dismiss(toastId);
-      return result.response.text();
-      
-    } catch (error: any) {
-      const errorMsg = error?.message?.toLowerCase() || "";
-      
-      // Identify transient "Wall" errors (Quota, Rate Limit, or Server Overload)
-      const isTransient = 
-        error?.status === 429 || 
-        error?.status === 503 || 
-        errorMsg.includes('quota') || 
-        errorMsg.includes('limit') || 
-        errorMsg.includes('rate');
-
-      if (isTransient) {
-        if (retryCount < maxRetries) {
-          // Exponential backoff calculation
-          const delay = Math.pow(2, retryCount) * baseDelay + Math.random() * 1000;
-          
-          if (!toastId) {
-            toastId = toast.loading("Fixit Hero brain is busy... retrying.");
-          } else {
-            toast.loading(`Fixit Hero brain. Retrying in ${Math.ceil(delay / 1000)}s...`, { id: toastId });
-          }
-
-          await wait(delay);
-          return attemptRequest(modelName, retryCount + 1);
-        }
-
-        // If primary model failed all retries, switch to the Lite model
-        if (modelName === PRIMARY_MODEL) {
-          if (toastId) toast.loading("Switching to backup brain...", { id: toastId });
-          return attemptRequest(FALLBACK_MODEL, 0);
-        }
-      }
-
-      // Final failure cleanup
-      if (toastId) toast.error("Hero Brain is offline. Please try later.", { id: toastId });
-      throw error;
-    }
-  };
-
-  return await attemptRequest(PRIMARY_MODEL);
-}
+const toImageMedia = (base64Image: string) => ({
+  data: toBase64Data(base64Image),
+  mimeType: "image/jpeg"
+});
 
 /* -------------------------------------------------------------------------- */
 /* EXPORTED FUNCTIONS                             */
@@ -87,35 +64,11 @@ async function tryWithFallback(prompt: string, imageData?: any) {
 
 export async function analyzeImage(base64Image: string) {
   try {
-    const base64Data = base64Image.includes(",") ? base64Image.split(",")[1] : base64Image;
-
-    const prompt = `You are the Fixit Hero App. You are a Master DIY Repair Consultant and Affiliate Concierge. 
-      You know everything about home repair to teach and assist the middle to begginer level DIY homeowners. A user has taken a photo.  
-      Be extermely specific and detailed in your response. Please identify this home repair part and what could be wrong with it.
-      Based on this image, provide expert analysis and repair guidance:
-
-      PART NAME
-      UNIVERSAL PART NAME: [Provide a single, optimized search term that works best on hardware store search engines - use common industry terms, model numbers if applicable, and avoid brand-specific names]
-      WHAT COULD BE WRONG WITH IT (considering the image): [List 2-3 most likely causes]
-      DIFFICULTY (Easy/Medium/Hard)
-      4 STEPS to fix or replace it
-      SUGGESTED PARTS: [List each suggested parts as simple text items, one per line, starting with "- " followed immediately by the part name - do not use asterisks, bold formatting, or extra punctuation]
-      SUGGESTED TOOLS: [List each suggested tools as simple text items, one per line, starting with "- " followed immediately by the tool name - do not use asterisks, bold formatting, or extra punctuation]
-      PREVENTION TIPS: [2-3 tips to prevent this issue in the future]
-      [Provide a 4-word search term for a tutorial]
-
-      FORMATTING INSTRUCTIONS:
-      - Use clean text without any asterisks (*) for bold or italic formatting
-      - For numbered steps that span multiple lines, indent continuation lines with 4 spaces to align with the first word after the number
-      - Format like this:
-        1. This is the first line
-            continuation indented properly
-            more continuation text
-      - Keep responses clear and readable without markdown formatting
-
-      Be safety-conscious in your response. Format parts simply as "- Part Name" without any markdown formatting.`;
-
-    return await tryWithFallback(prompt, base64Data);
+    const prompt = renderPrompt('analyze-image', {}).text;
+
+    return await scheduleAiRequest('analyze-image', () =>
+      getAiProvider().analyzeImage({ prompt, image: toImageMedia(base64Image) })
+    );
   } catch (error: any) {
     return `Hero Brain Error: ${error.message}`;
   }
@@ -123,35 +76,11 @@ export async function analyzeImage(base64Image: string) {
 
 export async function analyzeImageWithDescription(base64Image: string, description: string) {
   try {
-    const base64Data = base64Image.includes(",") ? base64Image.split(",")[1] : base64Image;
-
-    const prompt = `You are the Fixit Hero App. You are a Master DIY Repair Consultant and Affiliate Concierge.
-	  You know everything about home repair to teach and assist the middle to begginer level DIY homeowners. A user has taken a photo and provided this additional description: "${description}"
-																																 
-    Based on this image and description, provide expert analysis and repair guidance:
-    PART NAME and IDENTIFIED ISSUE: [Brief description of what you think the problem is]
-        
-    UNIVERSAL PART NAME: [Provide a single, optimized search term that works best on hardware store search engines - use common industry terms, model numbers if applicable, and avoid brand-specific names]
-    WHAT COULD BE WRONG AND POSSIBLE CAUSES (considering both the image and description): [List 2-3 most likely causes]
-    DIFFICULTY (Easy/Medium/Hard)
-    4 STEPS to diagnose and fix the issue
-    SUGGESTED PARTS: [List each suggested parts as simple text items, one per line, starting with "- " followed immediately by the part name - do not use asterisks, bold formatting, or extra punctuation]
-    SUGGESTED TOOLS: [List each suggested tools as simple text items, one per line, starting with "- " followed immediately by the tool name - do not use asterisks, bold formatting, or extra punctuation]
-    PREVENTION TIPS: [2-3 tips to prevent this issue in the future]
-    [Provide a 4-word search term for a tutorial]
-
-    FORMATTING INSTRUCTIONS:
-    - Use clean text without any asterisks (*) for bold or italic formatting
-    - For numbered steps that span multiple lines, indent continuation lines with 4 spaces to align with the first word after the number
-    - Format like this:
-      1. This is the first line
-          continuation indented properly
-          more continuation text
-    - Keep responses clear and readable without markdown formatting
-
-    Be safety-conscious in your response. Format parts simply as "- Part Name" without any markdown formatting.`;
-
-    return await tryWithFallback(prompt, base64Data);
+    const prompt = renderPrompt('analyze-image-with-description', { description }).text;
+
+    return await scheduleAiRequest('analyze-image', () =>
+      getAiProvider().analyzeImage({ prompt, image: toImageMedia(base64Image), userInput: description })
+    );
   } catch (error: any) {
     return `Hero Brain Error: ${error.message}`;
   }
@@ -159,30 +88,11 @@ export async function analyzeImageWithDescription(base64Image: string, descripti
 
 export async function analyzeTextIssue(issueDescription: string) {
   try {
-    const prompt = `You are the Fixit Hero App. You are a Master DIY Repair Consultant and Affiliate Concierge.
-    You know everything about home repair to teach and assist the middle to begginer level DIY homeowners. A user has described this home repair issue: "${issueDescription}"
-    Based on this description, provide expert analysis and repair guidance:
-    IDENTIFIED ISSUE: [Brief description of what you think the problem is]
-    WHAT COULD BE WRONG AND POSSIBLE CAUSES: [List 2-3 most likely causes]
-    DIFFICULTY (Easy/Medium/Hard)
-    4 STEPS to diagnose and fix the issue
-    SUGGESTED PARTS: [List each suggested parts as simple text items, one per line, starting with "- " followed immediately by the part name - do not use asterisks, bold formatting, or extra punctuation]
-    SUGGESTED TOOLS: [List each suggested tools as simple text items, one per line, starting with "- " followed immediately by the tool name - do not use asterisks, bold formatting, or extra punctuation]
-    PREVENTION TIPS: [2-3 tips to prevent this issue in the future]
-    [Provide a 4-word search term for a tutorial]
-
-    FORMATTING INSTRUCTIONS:
-    - Use clean text without any asterisks (*) for bold or italic formatting
-    - For numbered steps that span multiple lines, indent continuation lines with 4 spaces to align with the first word after the number
-    - Format like this:
-      1. This is the first line
-          continuation indented properly
-          more continuation text
-    - Keep responses clear and readable without markdown formatting
-
-    Be safety-conscious in your response. Format parts simply as "- Part Name" without any markdown formatting.`;
-
-    return await tryWithFallback(prompt);
+    const prompt = renderPrompt('analyze-text', { issueDescription }).text;
+
+    return await scheduleAiRequest('analyze-text', () =>
+      getAiProvider().analyzeTextIssue({ prompt, userInput: issueDescription })
+    );
   } catch (error: any) {
     return `Hero Brain Error: ${error.message}`;
   }
@@ -193,214 +103,573 @@ export async function analyzeTextIssue(issueDescription: string) {
 /* -------------------------------------------------------------------------- */
 
 /**
- * System instruction for Fixit Hero AI
+ * Most photos a single chat message may carry - each image adds input tokens
  */
-const SYSTEM_INSTRUCTION = `You are the Fixit Hero App - a Master DIY Repair Consultant. You help beginner to intermediate homeowners diagnose and fix repair issues.
-
-## CONVERSATION FLOW:
-
-### Phase 1: Initial Diagnosis (Ask questions)
-When a user uploads a photo or describes a problem:
-1. Provide a brief observation of what you see
-2. Ask 1-2 clarifying questions to narrow down the issue
-3. DO NOT give the full solution yet
-
-### Phase 2: Confirmation (User answers your questions)
-After the user provides more details:
-1. Summarize what you think the issue is
-2. Ask: "Does this sound like the right problem? Should I provide the full repair guide?"
-3. Wait for confirmation
+export const MAX_IMAGES_PER_MESSAGE = Number(import.meta.env.VITE_MAX_IMAGES_PER_MESSAGE) || 3;
 
-### Phase 3: Full Repair Guide (After user confirms)
-Once the user says YES (e.g., "yes", "that's correct", "sounds right", "let's fix it"), provide the COMPLETE repair guide in this EXACT format:
+/**
+ * How long a chat reply may go without new text before it is cancelled
+ */
+export const STREAM_TIMEOUT_MS = (Number(import.meta.env.VITE_AI_STREAM_TIMEOUT_SECONDS) || 60) * 1000;
 
----
+/**
+ * Per-message options for a chat session
+ */
+export interface SendMessageOptions {
+  /** Called with the request's queue position (1 = next); 0 once it starts */
+  onQueuePosition?: (position: number) => void;
+  /** Recorded noise as a data URL (see audioService) */
+  audioClip?: string;
+  /** Stop button - aborting ends the stream with an AbortError */
+  signal?: AbortSignal;
+  /** Override STREAM_TIMEOUT_MS for this message */
+  timeoutMs?: number;
+  /** Owner's manual excerpts to ground this turn in (see manualService.searchManuals) */
+  manualPassages?: ManualPassage[];
+}
 
-**IDENTIFIED ISSUE:** [Clear title of the problem]
+/**
+ * Options used when a chat session is created
+ */
+export interface ChatSessionOptions {
+  /** Compact home profile block (see homeContextService.formatHomeContext) */
+  homeContext?: string;
+  /** Skill level and comfort limits block (see skillProfileService.formatSkillProfile) */
+  skillProfile?: string;
+  /** Approximate build year, used by the rule-based hazard checks */
+  yearBuilt?: number | null;
+}
 
-**WHAT'S WRONG:** [Brief explanation of the issue and why it's happening]
+/**
+ * Create a new chat session with Fixit Hero AI
+ * Each turn goes through the active AiProvider (Gemini or offline)
+ * @param options - Optional home context and skill profile seeded into the system instruction
+ */
+export function createChatSession(options: ChatSessionOptions = {}) {
+  const provider = getAiProvider();
+  const systemInstruction = renderPrompt('chat-system', { homeContext: options.homeContext, skillProfile: options.skillProfile });
+  // Turns sent through this session, used when the caller doesn't supply its own history
+  const sessionHistory: ChatHistory = [];
 
-**DIFFICULTY:** Easy/Medium/Hard
+  return {
+    /**
+     * Send a message to the chat session with streaming and retry logic
+     * @param text - The text message from the user
+     * @param images - Base64 images (with or without data:image prefix), capped at MAX_IMAGES_PER_MESSAGE
+     * @param multimodalHistory - Optional history to send instead of this session's own turns
+     * @param options - Optional audio clip, manual excerpts, abort signal, timeout and callbacks (queue position while waiting for the scheduler)
+     * @returns AsyncGenerator that yields text chunks as they arrive
+     * @throws AbortError when options.signal aborts; a timeout error if no text arrives for timeoutMs
+     */
+    async *sendMessageStream(text: string, images: string[] = [], multimodalHistory?: ChatHistory, options: SendMessageOptions = {}): AsyncGenerator<string, void, unknown> {
+      if (images.length > MAX_IMAGES_PER_MESSAGE) {
+        console.warn(`Message has ${images.length} images, sending the first ${MAX_IMAGES_PER_MESSAGE}`);
+      }
 
-**REQUIRED PARTS:**
-- Part Name 1
-- Part Name 2
-- Part Name 3
+      await acquireAiSlot('chat', options.onQueuePosition, options.signal);
+
+      const history = multimodalHistory && multimodalHistory.length > 0
+        ? multimodalHistory
+        : [...sessionHistory];
+
+      // One controller for both the caller's Stop and the inactivity timeout
+      const controller = new AbortController();
+      const stop = () => controller.abort();
+      options.signal?.addEventListener('abort', stop, { once: true });
+
+      const timeoutMs = options.timeoutMs ?? STREAM_TIMEOUT_MS;
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const restartTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+      };
+
+      // Manual excerpts ride along with this turn only, so the session history stays small
+      const turnText = options.manualPassages && options.manualPassages.length > 0
+        ? `${text}\n\n${renderPrompt('manual-passages', { passages: formatManualPassages(options.manualPassages) }).text}`
+        : text;
+
+      let reply = '';
+      try {
+        restartTimer();
+        for await (const chunk of provider.sendMessageStream({
+          text: turnText,
+          images: images.slice(0, MAX_IMAGES_PER_MESSAGE).map(toImageMedia),
+          audio: options.audioClip
+            ? { data: toBase64Data(options.audioClip), mimeType: toMimeType(options.audioClip, "audio/wav") }
+            : undefined,
+          history,
+          systemInstruction: systemInstruction.text,
+          signal: controller.signal
+        })) {
+          if (controller.signal.aborted) break;
+          restartTimer();
+          reply += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        if (!timedOut) throw error;
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', stop);
+      }
 
-**REQUIRED TOOLS:**
-- Tool Name 1
-- Tool Name 2
-- Tool Name 3
+      if (timedOut) {
+        throw new Error(`Fixit Hero stopped responding for ${Math.round(timeoutMs / 1000)} seconds. Please try again.`);
+      }
+      if (controller.signal.aborted) {
+        throw new DOMException('Request cancelled', 'AbortError');
+      }
 
-**REPAIR STEPS:**
-1. [Detailed first step with clear instructions]
-2. [Detailed second step]
-3. [Detailed third step]
-4. [Detailed fourth step]
+      sessionHistory.push(
+        { role: 'user', parts: [{ text }] },
+        { role: 'model', parts: [{ text: reply }] }
+      );
+    },
 
-**PREVENTION TIPS:**
-- [Tip 1 to prevent this in the future]
-- [Tip 2 to prevent this in the future]
+    /**
+     * Structured "final guide" mode
+     * Asks the AI provider for a typed JSON guide matching REPAIR_GUIDE_SCHEMA and validates it at runtime.
+     * Falls back to parsing the streamed text guide only when the JSON fails validation.
+     * @param multimodalHistory - Conversation so far, including the turn that produced the guide
+     * @param fallbackText - The free-text guide to parse if the structured path fails
+     * @param signal - Stop button - leaves the queue or cancels the request
+     * @returns The diagnosis (or null, tagged with the prompt versions used) and which path produced it
+     * @throws AbortError when signal aborts
+     */
+    async generateFinalGuide(
+      multimodalHistory: ChatHistory,
+      fallbackText: string,
+      signal?: AbortSignal
+    ): Promise<{ diagnosis: DiagnosisResult | null; source: DiagnosisSource }> {
+      try {
+        const finalGuidePrompt = renderPrompt('final-guide', {});
+        const responseText = await scheduleAiRequest('final-guide', () =>
+          provider.generateStructured({
+            task: 'final-guide',
+            prompt: finalGuidePrompt.text,
+            schema: REPAIR_GUIDE_SCHEMA,
+            history: multimodalHistory,
+            systemInstruction: systemInstruction.text,
+            signal
+          }),
+          { signal, priority: 'follow-up' }
+        );
+
+        const diagnosis = validateRepairGuide(JSON.parse(responseText));
+        if (diagnosis) {
+          console.log('✅ Final guide produced via schema path');
+          diagnosis.prompt_version = `${systemInstruction.versionId}+${finalGuidePrompt.versionId}`;
+          return { diagnosis, source: 'schema' };
+        }
+        console.warn('Structured guide failed validation, falling back to text parser');
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Structured guide request failed, falling back to text parser:', error);
+      }
 
----
+      const { diagnosis } = parseDiagnosisText(fallbackText);
+      console.log('📝 Final guide produced via text fallback path');
+      if (diagnosis) diagnosis.prompt_version = systemInstruction.versionId;
+      return { diagnosis, source: 'text' };
+    },
 
-CRITICAL RULES:
-- Use simple part names (not brand-specific)
-- Be specific in steps (include measurements, settings, etc.)
-- Always format parts and tools as bulleted lists with "- " prefix
-- Use clean text without asterisks or markdown bold/italic
-- The structured text format (IDENTIFIED ISSUE, REQUIRED PARTS, etc.) is used for parsing - no JSON needed`;
+    /**
+     * Rebuild the guide's parts and steps for another of its ranked hypotheses
+     * @param multimodalHistory - The conversation the guide came from
+     * @param diagnosis - The current guide, including its hypotheses
+     * @param hypothesisIndex - Which hypothesis to fix instead
+     * @param signal - Stop button - leaves the queue or cancels the request
+     * @returns The new guide carrying the original hypotheses, or null if the request fails
+     * @throws AbortError when signal aborts
+     */
+    async generateHypothesisGuide(
+      multimodalHistory: ChatHistory,
+      diagnosis: DiagnosisResult,
+      hypothesisIndex: number,
+      signal?: AbortSignal
+    ): Promise<DiagnosisResult | null> {
+      const hypothesis = diagnosis.hypotheses?.[hypothesisIndex];
+      if (!hypothesis) return null;
+
+      try {
+        const hypothesisPrompt = renderPrompt('hypothesis-guide', {
+          cause: hypothesis.cause,
+          distinguishingTest: hypothesis.distinguishing_test,
+          currentGuide: JSON.stringify({
+            title: diagnosis.title,
+            parts_needed: diagnosis.parts_needed,
+            tools_needed: diagnosis.tools_needed,
+            steps: diagnosis.steps
+          }, null, 2)
+        });
+        const responseText = await scheduleAiRequest('hypothesis-guide', () =>
+          provider.generateStructured({
+            task: 'hypothesis-guide',
+            prompt: hypothesisPrompt.text,
+            schema: REPAIR_GUIDE_SCHEMA,
+            history: multimodalHistory,
+            systemInstruction: systemInstruction.text,
+            signal
+          }),
+          { signal, priority: 'follow-up' }
+        );
+
+        const guide = validateRepairGuide(JSON.parse(responseText));
+        if (guide) {
+          return {
+            ...guide,
+            // The ranking stays as first diagnosed; only the active pick moves
+            hypotheses: diagnosis.hypotheses,
+            active_hypothesis: hypothesisIndex,
+            prompt_version: `${systemInstruction.versionId}+${hypothesisPrompt.versionId}`
+          };
+        }
+        console.warn('Hypothesis guide failed validation');
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Hypothesis guide request failed:', error);
+      }
 
-/**
- * Create a new chat session with Fixit Hero AI
- * Uses Gemini's built-in chat session management
- */
-export function createChatSession() {
-  const model = genAI.getGenerativeModel({ 
-    model: PRIMARY_MODEL,
-    systemInstruction: SYSTEM_INSTRUCTION
-  });
+      return null;
+    },
 
-  const chat = model.startChat({
-    history: [],
-  });
+    /**
+     * Safety classification stage
+     * Asks the AI provider to tag the guide with hazard categories, severity, PPE and shut-off steps,
+     * then merges that with the rule-based checks so known high-risk work can never be missed.
+     * @param diagnosis - The finished repair guide
+     * @param signal - Stop button - leaves the queue or cancels the request
+     * @returns The merged assessment (rules only if the AI stage fails)
+     * @throws AbortError when signal aborts
+     */
+    async assessSafety(diagnosis: DiagnosisResult, signal?: AbortSignal): Promise<SafetyAssessment> {
+      const rules = classifyHazards(diagnosis, options.yearBuilt);
+
+      try {
+        const responseText = await scheduleAiRequest('safety-classification', () =>
+          provider.generateStructured({
+            task: 'safety-classification',
+            prompt: renderPrompt('safety-classification', {
+              guide: JSON.stringify({
+                title: diagnosis.title,
+                summary: diagnosis.summary,
+                parts_needed: diagnosis.parts_needed,
+                tools_needed: diagnosis.tools_needed,
+                steps: diagnosis.steps
+              }, null, 2),
+              homeContext: options.homeContext
+            }).text,
+            schema: SAFETY_SCHEMA,
+            signal
+          }),
+          { signal, priority: 'follow-up' }
+        );
+
+        const assessment = validateSafetyAssessment(JSON.parse(responseText));
+        if (!assessment) console.warn('Safety classification failed validation, using rule-based checks only');
+        return mergeSafetyAssessments(assessment, rules);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Safety classification request failed, using rule-based checks only:', error);
+        return rules;
+      }
+    },
 
-  return {
     /**
-     * Send a message to the chat session with streaming and retry logic
-     * @param text - The text message from the user
-     * @param imageBase64 - Optional base64 image data (with or without data:image prefix)
-     * @returns AsyncGenerator that yields text chunks as they arrive
+     * Fold new turns into the rolling conversation summary
+     * Falls back to a local fold (first sentences + answered questions) if the AI update fails,
+     * so context is never dropped.
+     * @param memory - Summary so far
+     * @param turns - Turns not yet in the summary
+     * @param updatedThrough - Total message count once these turns are included
      */
-    async *sendMessageStream(text: string, imageBase64?: string, multimodalHistory?: Array<{role: 'user' | 'model', parts: Array<{text?: string, inlineData?: {data: string, mimeType: string}}>}>): AsyncGenerator<string, void, unknown> {
-      const maxRetries = 5; // More retries for rate limits
-      const baseDelay = 3000; // 3 seconds base delay, doubling each time
-      let toastId: string | number | null = null;
-
-      // Prepare content
-      let content: any;
-      if (imageBase64) {
-        const base64Data = imageBase64.includes(",") ? imageBase64.split(",")[1] : imageBase64;
-        content = [
-          text,
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: "image/jpeg"
-            }
-          }
-        ];
-      } else {
-        content = text;
+    async updateMemory(memory: ConversationMemory, turns: ChatHistory, updatedThrough: number): Promise<ConversationMemory> {
+      const turnsText = turns
+        .map(turn => `${turn.role === 'user' ? 'USER' : 'FIXIT HERO'}: ${turn.parts.map(part => part.text || '').join(' ')}`)
+        .join('\n\n');
+
+      try {
+        const responseText = await scheduleAiRequest('conversation-memory', () =>
+          provider.generateStructured({
+            task: 'conversation-memory',
+            prompt: renderPrompt('conversation-memory', {
+              memory: JSON.stringify({ ...memory, updated_through: undefined }, null, 2),
+              turns: turnsText
+            }).text,
+            schema: CONVERSATION_MEMORY_SCHEMA
+          }),
+          { priority: 'follow-up' }
+        );
+
+        const updated = validateConversationMemory(JSON.parse(responseText), updatedThrough);
+        if (updated) return updated;
+        console.warn('Conversation memory failed validation, folding turns locally');
+      } catch (error) {
+        console.warn('Conversation memory update failed, folding turns locally:', error);
       }
 
-      // Try with primary model first, then fallback
-      const modelsToTry = [PRIMARY_MODEL, FALLBACK_MODEL];
-
-      for (const modelName of modelsToTry) {
-        let retryCount = 0;
-
-        while (retryCount <= maxRetries) {
-          try {
-            // Create a new chat session with the selected model
-            const model = genAI.getGenerativeModel({
-              model: modelName,
-              systemInstruction: SYSTEM_INSTRUCTION
-            });
-
-            // Use provided multimodal history or get existing history for context
-            let history: any[] = [];
-            if (multimodalHistory && multimodalHistory.length > 0) {
-              // Convert multimodal history to Gemini format
-              history = multimodalHistory.flat().map(msg => ({
-                role: msg.role,
-                parts: msg.parts
-              }));
-            } else {
-              // Fallback to existing chat history if no multimodal history provided
-              try {
-                const existingHistory = await chat.getHistory();
-                history = Array.isArray(existingHistory) ? existingHistory : [];
-              } catch (e) {
-                console.warn('Could not get chat history:', e);
-              }
-            }
-
-            const tempChat = model.startChat({
-              history: history
-            });
-
-            const result = await tempChat.sendMessageStream(content);
-
-            // Success - dismiss any toast and stream
-            if (toastId) toast.dismiss(toastId);
-
-            for await (const chunk of result.stream) {
-              const chunkText = chunk.text();
-              yield chunkText;
-            }
-
-            return; // Success - exit completely
-
-          } catch (error: any) {
-            const errorMsg = error?.message?.toLowerCase() || "";
-            const isRateLimit = error?.status === 429 ||
-              error?.status === 429 ||
-              errorMsg.includes('quota') ||
-              errorMsg.includes('limit') ||
-              errorMsg.includes('rate') ||
-              errorMsg.includes('per minute') ||
-              errorMsg.includes('too many requests') ||
-              errorMsg.includes('resource exhausted') ||
-              errorMsg.includes('exceeded');
-
-            if (isRateLimit && retryCount < maxRetries) {
-              // Longer exponential backoff for rate limits
-              const delay = Math.pow(2, retryCount) * baseDelay + Math.random() * 2000;
-
-              if (!toastId) {
-                toastId = toast.loading("Fixit Hero brain is busy... please wait.");
-              } else {
-                toast.loading(`Rate limit reached. Waiting ${Math.ceil(delay / 1000)}s before retry...`, { id: toastId });
-              }
-
-              await wait(delay);
-              retryCount++;
-              continue; // Retry with same model
-            }
-
-            // If it's the primary model and we've exhausted retries, try fallback
-            if (modelName === PRIMARY_MODEL && isRateLimit) {
-              if (toastId) toast.loading("Trying backup brain...", { id: toastId });
-              break; // Break to try next model
-            }
-
-            // Final failure for rate limits
-            if (isRateLimit) {
-              if (toastId) toast.error("Fixit Hero brain is at capacity. Please wait 1-2 minutes before trying again.", { id: toastId });
-              throw new Error("Rate limit exceeded. Please wait 1-2 minutes before trying again.");
-            }
-
-            // Other errors
-            if (toastId) toast.error("Hero Brain encountered an error. Please try again.", { id: toastId });
-            throw new Error(error.message || "An error occurred");
-          }
-        }
+      return foldTurnsLocally(memory, turns, updatedThrough);
+    },
+
+    /**
+     * Describe photos for the session image registry
+     * The descriptions stand in for the photos in text-only history.
+     * @param images - Base64 images from one message
+     * @returns One description per image (empty strings if the request fails)
+     */
+    async describeImages(images: string[]): Promise<string[]> {
+      try {
+        const responseText = await scheduleAiRequest('describe-images', () =>
+          provider.generateStructured({
+            task: 'describe-images',
+            prompt: renderPrompt('describe-images', { count: images.length }).text,
+            schema: IMAGE_DESCRIPTION_SCHEMA,
+            images: images.map(toImageMedia)
+          }),
+          { priority: 'follow-up' }
+        );
+
+        const descriptions = validateImageDescriptions(JSON.parse(responseText), images.length);
+        if (descriptions) return descriptions;
+        console.warn('Image descriptions failed validation, keeping photo labels only');
+      } catch (error) {
+        console.warn('Image description request failed, keeping photo labels only:', error);
       }
 
-      // If we get here, all models failed
-      throw new Error("Fixit Hero brain is currently unavailable. Please try again in a few minutes.");
+      return images.map(() => '');
     },
 
     /**
      * Get the chat history
      */
-    getHistory() {
-      return chat.getHistory();
+    async getHistory(): Promise<ChatHistory> {
+      return [...sessionHistory];
     }
   };
 }
 
+/* -------------------------------------------------------------------------- */
+/* GUIDED REPAIR                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Answer a question about one step of a guided repair
+ * The prompt carries the whole guide (with the current step marked) and the step's earlier questions,
+ * so the answer stays scoped to that step.
+ * @param guide - The repair guide being followed
+ * @param stepIndex - 0-based index of the current step
+ * @param question - The user's question
+ * @param previousQuestions - Earlier questions and answers on this step
+ * @returns The answer, or null if the request fails
+ */
+export async function askAboutStep(
+  guide: GuidedRepairGuide,
+  stepIndex: number,
+  question: string,
+  previousQuestions: StepQuestion[] = []
+): Promise<string | null> {
+  try {
+    const responseText = await scheduleAiRequest('step-help', () =>
+      getAiProvider().generateStructured({
+        task: 'step-help',
+        prompt: renderPrompt('step-help', {
+          guide: formatGuideForPrompt(guide, stepIndex),
+          stepNumber: stepIndex + 1,
+          previousQuestions: formatStepQuestions(previousQuestions),
+          question
+        }).text,
+        schema: STEP_ANSWER_SCHEMA
+      })
+    );
+
+    const answer = validateStepAnswer(JSON.parse(responseText));
+    if (answer) return answer;
+    console.warn('Step answer failed validation');
+  } catch (error) {
+    console.warn('Step question request failed:', error);
+  }
+
+  return null;
+}
+
+/**
+ * "Does this look right?" check of a photo taken after one step
+ * @param guide - The repair guide being followed
+ * @param stepIndex - 0-based index of the step the photo is for
+ * @param image - Base64 photo (with or without data:image prefix)
+ * @returns The verdict ('unclear' with a note to check by eye if the request fails)
+ */
+export async function checkStepPhoto(guide: GuidedRepairGuide, stepIndex: number, image: string): Promise<StepPhotoCheck> {
+  try {
+    const responseText = await scheduleAiRequest('step-photo-check', () =>
+      getAiProvider().generateStructured({
+        task: 'step-photo-check',
+        prompt: renderPrompt('step-photo-check', {
+          guide: formatGuideForPrompt(guide, stepIndex),
+          stepNumber: stepIndex + 1
+        }).text,
+        schema: STEP_PHOTO_CHECK_SCHEMA,
+        images: [toImageMedia(image)]
+      })
+    );
+
+    const check = validateStepPhotoCheck(JSON.parse(responseText));
+    if (check) return check;
+    console.warn('Step photo check failed validation');
+  } catch (error) {
+    console.warn('Step photo check request failed:', error);
+  }
+
+  return {
+    verdict: 'unclear',
+    feedback: "Couldn't check this photo right now. Compare your work with the step yourself before moving on.",
+    checked_at: new Date().toISOString()
+  };
+}
+
+/**
+ * "Verify fix" check of an after-photo against the original diagnosis
+ * @param guide - The saved repair
+ * @param afterImage - Base64 photo taken after the repair
+ * @param beforeImage - Optional base64 photo of the original problem, sent first
+ * @returns The verdict, or null if the request fails (nothing is recorded then)
+ */
+export async function verifyRepairFix(
+  guide: GuidedRepairGuide,
+  afterImage: string,
+  beforeImage?: string | null
+): Promise<VerificationResult | null> {
+  try {
+    const responseText = await scheduleAiRequest('verify-repair', () =>
+      getAiProvider().generateStructured({
+        task: 'verify-repair',
+        prompt: renderPrompt('verify-repair', {
+          guide: formatGuideForPrompt(guide),
+          hasBeforePhoto: !!beforeImage
+        }).text,
+        schema: VERIFICATION_SCHEMA,
+        images: [...(beforeImage ? [beforeImage] : []), afterImage].map(toImageMedia)
+      })
+    );
+
+    const result = validateVerificationResult(JSON.parse(responseText));
+    if (result) return result;
+    console.warn('Repair verification failed validation');
+  } catch (error) {
+    console.warn('Repair verification request failed:', error);
+  }
+
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/* LABEL SCAN                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Read an appliance rating plate, filter size label or part sticker
+ * @param image - Base64 photo of the label
+ * @returns The fields read, or null if the request fails or nothing identifying was legible
+ */
+export async function scanLabel(image: string): Promise<LabelScan | null> {
+  try {
+    const responseText = await scheduleAiRequest('scan-label', () =>
+      getAiProvider().generateStructured({
+        task: 'scan-label',
+        prompt: renderPrompt('scan-label', {}).text,
+        schema: LABEL_SCAN_SCHEMA,
+        images: [toImageMedia(image)]
+      })
+    );
+
+    const scan = validateLabelScan(JSON.parse(responseText));
+    if (scan) return scan;
+    console.warn('Label scan found no identifying fields');
+  } catch (error) {
+    console.warn('Label scan request failed:', error);
+  }
+
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/* COST ESTIMATE                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Estimate parts and tool prices, DIY hours and a professional price range for a guide
+ * @param guide - The diagnosis
+ * @param region - Area for pro labor rates (see costEstimateService.costRegion)
+ * @returns The raw AI estimate (before inventory prices are applied), or null if the request fails
+ */
+export async function estimateRepairCost(
+  guide: Pick<DiagnosisResult, 'title' | 'summary' | 'parts_needed' | 'tools_needed' | 'steps'>,
+  region: string | null
+): Promise<AiCostEstimate | null> {
+  try {
+    const responseText = await scheduleAiRequest('cost-estimate', () =>
+      getAiProvider().generateStructured({
+        task: 'cost-estimate',
+        prompt: renderPrompt('cost-estimate', {
+          guide: JSON.stringify({
+            title: guide.title,
+            summary: guide.summary,
+            parts_needed: guide.parts_needed,
+            tools_needed: guide.tools_needed,
+            steps: guide.steps
+          }, null, 2),
+          region: region || undefined
+        }).text,
+        schema: COST_ESTIMATE_SCHEMA
+      }),
+      { priority: 'follow-up' }
+    );
+
+    const estimate = validateCostEstimate(JSON.parse(responseText));
+    if (estimate) return estimate;
+    console.warn('Cost estimate failed validation');
+  } catch (error) {
+    console.warn('Cost estimate request failed:', error);
+  }
+
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/* MANUAL LIBRARY                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Transcribe a photographed manual page so it can be chunked and searched like PDF text
+ * @param image - Base64 photo of the page
+ * @returns The page text and its printed page number (if visible), or null if the request fails
+ */
+export async function transcribeManualPage(image: string): Promise<{ text: string; printedPage: number | null } | null> {
+  try {
+    const responseText = await scheduleAiRequest('manual-page', () =>
+      getAiProvider().generateStructured({
+        task: 'manual-page',
+        prompt: renderPrompt('manual-page', {}).text,
+        schema: MANUAL_PAGE_SCHEMA,
+        images: [toImageMedia(image)]
+      })
+    );
+
+    const page = validateManualPage(JSON.parse(responseText));
+    if (page) return page;
+    console.warn('Manual page transcription returned no text');
+  } catch (error) {
+    console.warn('Manual page transcription failed:', error);
+  }
+
+  return null;
+}
+
 /* -------------------------------------------------------------------------- */
 /* CONVERSATIONAL AI FUNCTIONS (Legacy - for backwards compatibility)        */
 /* -------------------------------------------------------------------------- */
@@ -422,6 +691,13 @@ function buildConversationContext(
   return [systemContext, ...messages].join('\n\n');
 }
 
+/**
+ * All user text from the conversation, for providers that pick replies from fixtures
+ */
+function latestUserInput(history: Array<{ role: string; content: string }>): string {
+  return history.filter(msg => msg.role === 'user').map(msg => msg.content).join(' ');
+}
+
 /**
  * Ask a clarifying question to refine the repair diagnosis
  */
@@ -429,21 +705,13 @@ export async function askClarifyingQuestion(
   history: Array<{ role: string; content: string }>
 ): Promise<string> {
   try {
-    const contextPrompt = buildConversationContext(history);
-    
-    const prompt = `${contextPrompt}
-
-FIXIT HERO: Based on the initial analysis above, ask ONE specific follow-up question that will help narrow down the exact problem or verify the diagnosis. 
-
-Your question should:
-- Be clear and easy to answer
-- Help eliminate alternative causes
-- Ask about symptoms, timing, or specific details the user can observe
-- Be conversational and helpful
-
-Ask only the question - do not provide analysis or additional commentary.`;
+    const prompt = renderPrompt('clarifying-question', {
+      conversation: buildConversationContext(history)
+    }).text;
 
-    return await tryWithFallback(prompt);
+    return await scheduleAiRequest('clarifying-question', () =>
+      getAiProvider().askClarifyingQuestion({ prompt, userInput: latestUserInput(history) })
+    );
   } catch (error: any) {
     return `I'd like to help refine this diagnosis. Can you tell me more about when this issue occurs?`;
   }
@@ -457,37 +725,17 @@ export async function refineAnalysis(
   base64Image?: string
 ): Promise<string> {
   try {
-    const contextPrompt = buildConversationContext(history);
-    
-    const prompt = `${contextPrompt}
-
-FIXIT HERO: Now provide a REFINED and MORE ACCURATE repair analysis based on all the information gathered in our conversation. Use this format:
-
-REFINED DIAGNOSIS: [More specific diagnosis based on the conversation]
-CONFIRMED ISSUE: [What's definitively wrong]
-ROOT CAUSE: [The most likely cause based on all details]
-DIFFICULTY (Easy/Medium/Hard)
-DETAILED REPAIR STEPS:
-1. [Step 1]
-2. [Step 2]
-3. [Step 3]
-4. [Step 4]
-
-REQUIRED PARTS: [List each part as simple text items, one per line, starting with "- " followed by the part name]
-SUGGESTED TOOLS: [List each tool as simple text items, one per line, starting with "- " followed by the tool name]
-PREVENTION TIPS: [2-3 specific tips based on the identified cause]
-
-FORMATTING INSTRUCTIONS:
-- Use clean text without asterisks (*) for formatting
-- For numbered steps spanning multiple lines, indent continuation lines with 4 spaces
-- Keep responses clear and readable
-- Be more specific than the initial analysis`;
-
-    const imageData = base64Image 
-      ? (base64Image.includes(",") ? base64Image.split(",")[1] : base64Image)
-      : undefined;
-
-    return await tryWithFallback(prompt, imageData);
+    const prompt = renderPrompt('refine-analysis', {
+      conversation: buildConversationContext(history)
+    }).text;
+
+    return await scheduleAiRequest('refine-analysis', () =>
+      getAiProvider().refineAnalysis({
+        prompt,
+        image: base64Image ? toImageMedia(base64Image) : undefined,
+        userInput: latestUserInput(history)
+      })
+    );
   } catch (error: any) {
     return `Hero Brain Error: ${error.message}`;
   }
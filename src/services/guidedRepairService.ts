@@ -0,0 +1,175 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type { DiagnosisResult } from "./diagnosisService";
+
+/**
+ * The parts of a guide the step helpers need (a DiagnosisResult or a SavedRepair)
+ */
+export type GuidedRepairGuide = Pick<DiagnosisResult, 'title' | 'summary' | 'tools_needed' | 'steps'>;
+
+export type StepCheckVerdict = 'looks_right' | 'needs_attention' | 'unclear';
+
+/**
+ * AI verdict on a "does this look right?" photo for one step
+ */
+export interface StepPhotoCheck {
+  verdict: StepCheckVerdict;
+  feedback: string;
+  checked_at: string;
+}
+
+export interface StepQuestion {
+  question: string;
+  answer: string;
+}
+
+export interface StepProgress {
+  done: boolean;
+  /** Questions asked in this step's "ask about this step" chat */
+  questions: StepQuestion[];
+  /** Latest photo check, null until the user sends one */
+  photo_check: StepPhotoCheck | null;
+}
+
+/**
+ * Guided repair progress, saved on the repair so it can be resumed
+ */
+export interface RepairProgress {
+  /** Step shown when the guided mode reopens */
+  current_step: number;
+  steps: StepProgress[];
+  started_at: string;
+  updated_at: string;
+  /** Set when every step is checked off */
+  completed_at: string | null;
+}
+
+const VERDICTS: StepCheckVerdict[] = ['looks_right', 'needs_attention', 'unclear'];
+
+/**
+ * Questions kept per step (and sent back as context)
+ */
+const MAX_STEP_QUESTIONS = 10;
+
+export const STEP_CHECK_LABELS: Record<StepCheckVerdict, string> = {
+  looks_right: 'Looks right',
+  needs_attention: 'Needs attention',
+  unclear: 'Could not tell'
+};
+
+export const STEP_ANSWER_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    answer: { type: SchemaType.STRING, description: "Answer to the user's question about the current step" }
+  },
+  required: ["answer"]
+};
+
+export const STEP_PHOTO_CHECK_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    verdict: { type: SchemaType.STRING, format: "enum", enum: VERDICTS },
+    feedback: { type: SchemaType.STRING, description: "What looks right or wrong in the photo and what to do next" }
+  },
+  required: ["verdict", "feedback"]
+};
+
+/**
+ * Runtime validation for a step answer returned by the model
+ */
+export function validateStepAnswer(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return null;
+  const answer = (value as Record<string, unknown>).answer;
+  return typeof answer === 'string' && answer.trim() ? answer.trim() : null;
+}
+
+/**
+ * Runtime validation for a photo check returned by the model
+ */
+export function validateStepPhotoCheck(value: unknown): StepPhotoCheck | null {
+  if (!value || typeof value !== 'object') return null;
+  const { verdict, feedback } = value as Record<string, unknown>;
+
+  if (typeof verdict !== 'string' || !VERDICTS.includes(verdict as StepCheckVerdict)) return null;
+  if (typeof feedback !== 'string' || !feedback.trim()) return null;
+
+  return { verdict: verdict as StepCheckVerdict, feedback: feedback.trim(), checked_at: new Date().toISOString() };
+}
+
+const emptyStep = (): StepProgress => ({ done: false, questions: [], photo_check: null });
+
+/**
+ * Fresh progress for a guide with stepCount steps
+ */
+export function createRepairProgress(stepCount: number): RepairProgress {
+  const now = new Date().toISOString();
+  return {
+    current_step: 0,
+    steps: Array.from({ length: stepCount }, emptyStep),
+    started_at: now,
+    updated_at: now,
+    completed_at: null
+  };
+}
+
+/**
+ * Line saved progress up with the guide's steps (padding or trimming if the step count differs)
+ * @returns Fresh progress when nothing was saved
+ */
+export function normalizeRepairProgress(progress: RepairProgress | null | undefined, stepCount: number): RepairProgress {
+  if (!progress || !Array.isArray(progress.steps)) return createRepairProgress(stepCount);
+
+  const steps = Array.from({ length: stepCount }, (_, idx) => ({ ...emptyStep(), ...progress.steps[idx] }));
+  return {
+    ...progress,
+    steps,
+    current_step: Math.min(Math.max(progress.current_step || 0, 0), Math.max(stepCount - 1, 0)),
+    completed_at: steps.every(step => step.done) ? progress.completed_at : null
+  };
+}
+
+/**
+ * Apply a change to one step, keeping updated_at and completed_at in sync
+ */
+export function updateStepProgress(progress: RepairProgress, stepIndex: number, changes: Partial<StepProgress>): RepairProgress {
+  const now = new Date().toISOString();
+  const steps = progress.steps.map((step, idx) => {
+    if (idx !== stepIndex) return step;
+    const updated = { ...step, ...changes };
+    return { ...updated, questions: updated.questions.slice(-MAX_STEP_QUESTIONS) };
+  });
+  const allDone = steps.length > 0 && steps.every(step => step.done);
+
+  return {
+    ...progress,
+    steps,
+    updated_at: now,
+    completed_at: allDone ? progress.completed_at || now : null
+  };
+}
+
+/**
+ * Number of steps checked off
+ */
+export function completedStepCount(progress: RepairProgress | null | undefined): number {
+  return progress?.steps?.filter(step => step.done).length || 0;
+}
+
+/**
+ * Render a guide for the step and verification prompts, marking the current step if given
+ */
+export function formatGuideForPrompt(guide: GuidedRepairGuide, stepIndex?: number): string {
+  return [
+    `Repair: ${guide.title}`,
+    guide.summary ? `Problem: ${guide.summary}` : '',
+    guide.tools_needed.length > 0 ? `Tools: ${guide.tools_needed.join(', ')}` : '',
+    'Steps:',
+    ...guide.steps.map((step, idx) => `${idx === stepIndex ? '>>' : '  '} ${idx + 1}. ${step}`)
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Earlier questions on a step as prompt context
+ */
+export function formatStepQuestions(questions: StepQuestion[]): string {
+  return questions.map(qa => `Q: ${qa.question}\nA: ${qa.answer}`).join('\n\n');
+}
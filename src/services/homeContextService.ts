@@ -0,0 +1,155 @@
+import type { UserProfileNew } from './authService';
+import { getUserParts } from './partsService';
+import { getSavedRepairs } from './repairService';
+
+/**
+ * Broad climate zones (IECC style) used to tailor likely causes
+ */
+export type ClimateRegion = 'Hot-Humid' | 'Hot-Dry' | 'Mixed-Humid' | 'Mixed-Dry' | 'Marine' | 'Cold' | 'Very Cold';
+
+export interface HomeContext {
+  homeAge: number | null;
+  yearBuilt: number | null;
+  climateRegion: ClimateRegion | null;
+  ownedTools: string[];
+  recentRepairs: Array<{ title: string; date: string }>;
+}
+
+/**
+ * How many tools / past repairs to include - keeps the prompt block compact
+ */
+const MAX_OWNED_TOOLS = 25;
+const MAX_RECENT_REPAIRS = 5;
+
+/**
+ * 3-digit ZIP prefix ranges mapped to a climate region
+ * Approximate by design: good enough to steer causes, not for building code decisions
+ */
+const ZIP_CLIMATE_RANGES: Array<[number, number, ClimateRegion]> = [
+  [6, 9, 'Hot-Humid'],        // PR, VI
+  [10, 196, 'Cold'],          // New England, NY, NJ, PA
+  [197, 289, 'Mixed-Humid'],  // DE, DC, MD, VA, WV, NC
+  [290, 369, 'Hot-Humid'],    // SC, GA, FL, AL
+  [370, 385, 'Mixed-Humid'],  // TN
+  [386, 399, 'Hot-Humid'],    // MS, GA
+  [400, 427, 'Mixed-Humid'],  // KY
+  [430, 549, 'Cold'],         // OH, IN, MI, IA, WI
+  [550, 567, 'Very Cold'],    // MN
+  [570, 577, 'Cold'],         // SD
+  [580, 588, 'Very Cold'],    // ND
+  [590, 629, 'Cold'],         // MT, IL
+  [630, 679, 'Mixed-Humid'],  // MO, KS
+  [680, 693, 'Cold'],         // NE
+  [700, 714, 'Hot-Humid'],    // LA
+  [716, 749, 'Mixed-Humid'],  // AR, OK
+  [750, 789, 'Hot-Humid'],    // TX (east and central)
+  [790, 799, 'Hot-Dry'],      // TX (west)
+  [800, 838, 'Cold'],         // CO, WY, ID
+  [840, 847, 'Mixed-Dry'],    // UT
+  [850, 865, 'Hot-Dry'],      // AZ
+  [870, 884, 'Mixed-Dry'],    // NM
+  [889, 935, 'Hot-Dry'],      // NV, southern CA
+  [936, 961, 'Marine'],       // central and northern CA
+  [967, 968, 'Hot-Humid'],    // HI
+  [970, 994, 'Marine'],       // OR, WA
+  [995, 999, 'Very Cold']     // AK
+];
+
+/**
+ * Typical failure modes per climate, so the model weighs them when ranking causes
+ */
+const CLIMATE_HINTS: Record<ClimateRegion, string> = {
+  'Hot-Humid': 'humidity, mold and mildew, AC condensate clogs, termites',
+  'Hot-Dry': 'hard water scale, UV and heat damage, dry rot of seals, evaporative cooler wear',
+  'Mixed-Humid': 'seasonal humidity swings, occasional pipe freezes, crawlspace moisture',
+  'Mixed-Dry': 'hard water scale, freeze-thaw cycles, dry air shrinkage',
+  'Marine': 'persistent damp, moss and rot, corrosion, poor ventilation',
+  'Cold': 'frozen or burst pipes, ice dams, freeze-thaw cracking, heavy furnace use',
+  'Very Cold': 'frozen pipes and drains, ice dams, frost heave, long heating seasons'
+};
+
+/**
+ * Look up the climate region for a US ZIP code, falling back to latitude
+ */
+export function getClimateRegion(zipCode: string | null, latitude?: number | null): ClimateRegion | null {
+  const digits = (zipCode || '').trim().match(/^\d{3}/);
+  if (digits) {
+    const prefix = parseInt(digits[0], 10);
+    const range = ZIP_CLIMATE_RANGES.find(([from, to]) => prefix >= from && prefix <= to);
+    if (range) return range[2];
+  }
+
+  if (latitude != null) {
+    if (latitude >= 45) return 'Cold';
+    if (latitude >= 37) return 'Mixed-Humid';
+    return 'Hot-Humid';
+  }
+
+  return null;
+}
+
+/**
+ * Era-specific materials worth flagging for older homes
+ */
+function getEraNotes(yearBuilt: number): string[] {
+  const notes: string[] = [];
+  if (yearBuilt < 1960) notes.push('galvanized steel or cast iron plumbing likely');
+  if (yearBuilt < 1978) notes.push('lead paint possible');
+  if (yearBuilt < 1981) notes.push('asbestos possible in insulation, flooring, or ceilings');
+  if (yearBuilt >= 1965 && yearBuilt <= 1973) notes.push('aluminum branch wiring possible');
+  if (yearBuilt >= 1978 && yearBuilt <= 1995) notes.push('polybutylene supply lines possible');
+  return notes;
+}
+
+/**
+ * Gather the user's home profile, owned tools and recent repairs
+ * Inventory lookups fail soft - a missing piece just drops out of the context
+ */
+export async function buildHomeContext(profile: UserProfileNew | null): Promise<HomeContext> {
+  const [parts, repairs] = await Promise.all([getUserParts(), getSavedRepairs()]);
+
+  const homeAge = profile?.homeAge ?? null;
+
+  return {
+    homeAge,
+    yearBuilt: homeAge != null ? new Date().getFullYear() - homeAge : null,
+    climateRegion: getClimateRegion(profile?.zipCode ?? null, profile?.latitude),
+    ownedTools: parts
+      .filter(part => part.category === 'tool')
+      .map(part => part.name)
+      .slice(0, MAX_OWNED_TOOLS),
+    recentRepairs: repairs.slice(0, MAX_RECENT_REPAIRS).map(repair => ({
+      title: repair.title,
+      date: repair.created_at.slice(0, 10)
+    }))
+  };
+}
+
+/**
+ * Render the context as a compact block for the chat system prompt
+ * @returns The block, or undefined if there is nothing worth sending
+ */
+export function formatHomeContext(context: HomeContext): string | undefined {
+  const lines: string[] = [];
+
+  if (context.yearBuilt != null) {
+    const decade = Math.floor(context.yearBuilt / 10) * 10;
+    const eraNotes = getEraNotes(context.yearBuilt);
+    lines.push(`- Home: about ${context.homeAge} years old (built around ${context.yearBuilt}, ${decade}s construction)`);
+    if (eraNotes.length > 0) lines.push(`- Era notes: ${eraNotes.join('; ')}`);
+  }
+
+  if (context.climateRegion) {
+    lines.push(`- Climate: ${context.climateRegion} (common issues: ${CLIMATE_HINTS[context.climateRegion]})`);
+  }
+
+  if (context.ownedTools.length > 0) {
+    lines.push(`- Tools already owned: ${context.ownedTools.join(', ')}`);
+  }
+
+  if (context.recentRepairs.length > 0) {
+    lines.push(`- Recent repairs: ${context.recentRepairs.map(r => `${r.title} (${r.date})`).join('; ')}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
@@ -0,0 +1,227 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+
+/**
+ * One photo in a conversation's image registry
+ * Full images are only sent with the message that carried them. After that the
+ * description stands in for the photo in text history, and the thumbnail is
+ * re-attached when the user refers back to it.
+ */
+export interface SessionImage {
+  /** 1-based, shown to the user and the model as "Photo N" */
+  number: number;
+  /** Index of the chat message that carried the photo */
+  message_index: number;
+  /** Small JPEG data URL sent when the photo is re-attached */
+  thumbnail: string;
+  /** What the model saw in the photo, empty until described */
+  description: string;
+}
+
+/**
+ * Gemini bills an image that fits in 384x384 as a single tile (258 tokens),
+ * so re-attaching a thumbnail costs the minimum
+ */
+const THUMBNAIL_SIZE = 384;
+const THUMBNAIL_QUALITY = 0.6;
+
+export const IMAGE_DESCRIPTION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    descriptions: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "One description per photo, in the order the photos were attached"
+    }
+  },
+  required: ["descriptions"]
+};
+
+/**
+ * Runtime validation for image descriptions returned by the model
+ * @param value - Parsed JSON from the model
+ * @param count - Number of photos that were sent
+ */
+export function validateImageDescriptions(value: unknown, count: number): string[] | null {
+  if (!value || typeof value !== 'object') return null;
+  const descriptions = (value as Record<string, unknown>).descriptions;
+
+  if (!Array.isArray(descriptions) || descriptions.length !== count) return null;
+  if (!descriptions.every(item => typeof item === 'string')) return null;
+
+  return descriptions.map(item => item.trim());
+}
+
+/**
+ * Compress image to reduce token usage
+ * @param imageData Base64 image data
+ * @param maxWidth Maximum width in pixels (default: 1024)
+ * @param quality JPEG quality (0-1, default: 0.7)
+ * @returns Promise<string> Compressed base64 image data
+ */
+export const compressImage = (imageData: string, maxWidth: number = 1024, quality: number = 0.7): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      // Calculate new dimensions
+      let { width, height } = img;
+      if (width > maxWidth) {
+        height = (height * maxWidth) / width;
+        width = maxWidth;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      // Draw and compress
+      ctx.drawImage(img, 0, 0, width, height);
+      const compressedData = canvas.toDataURL('image/jpeg', quality);
+
+      resolve(compressedData);
+    };
+
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageData;
+  });
+};
+
+/**
+ * Shrink a photo to a registry thumbnail
+ * @param imageData - Data URL of the full (compressed) photo
+ */
+export function createThumbnail(imageData: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+    };
+
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageData;
+  });
+}
+
+/**
+ * Add a message's photos to the registry, numbered after the existing ones
+ * @param registry - Photos registered so far
+ * @param thumbnails - Thumbnails of the new photos, in attachment order
+ * @param messageIndex - Index of the message that carries them
+ */
+export function registerImages(registry: SessionImage[], thumbnails: string[], messageIndex: number): SessionImage[] {
+  const nextNumber = registry.reduce((max, image) => Math.max(max, image.number), 0) + 1;
+
+  return [
+    ...registry,
+    ...thumbnails.map((thumbnail, idx) => ({
+      number: nextNumber + idx,
+      message_index: messageIndex,
+      thumbnail,
+      description: ''
+    }))
+  ];
+}
+
+/**
+ * Photos carried by one message
+ */
+export function imagesForMessage(registry: SessionImage[], messageIndex: number): SessionImage[] {
+  return registry.filter(image => image.message_index === messageIndex);
+}
+
+/**
+ * Text stand-in for photos in text-only history, e.g. "[Photo 2: shut-off valve with a green handle]"
+ */
+export function describeImagesAsText(images: SessionImage[]): string {
+  return images
+    .map(image => (image.description ? `[Photo ${image.number}: ${image.description}]` : `[Photo ${image.number}]`))
+    .join(' ');
+}
+
+/**
+ * Tell the model which photos in this turn are new and which are earlier ones sent again
+ * Attached images are ordered new first, then re-attached
+ */
+export function annotateMessage(text: string, newImages: SessionImage[], reattached: SessionImage[]): string {
+  const notes = [
+    newImages.length > 0 ? `[New: ${newImages.map(image => `Photo ${image.number}`).join(', ')}]` : '',
+    reattached.length > 0
+      ? `[Re-attached earlier: ${reattached.map(image => `Photo ${image.number}`).join(', ')}]`
+      : ''
+  ].filter(Boolean);
+
+  return notes.length > 0 ? `${text}\n\n${notes.join(' ')}` : text;
+}
+
+/**
+ * Words that suggest the user is pointing back at something they showed earlier
+ */
+const REFERENCE_PATTERN = /\b(photos?|pictures?|pics?|images?|shots?|snapshots?|pictured|shown)\b|\b(on|to) the (left|right)\b|\b(earlier|previous|first|last|other) one\b|\bi (showed|sent|uploaded)\b/i;
+
+const EXPLICIT_NUMBER_PATTERN = /\b(?:photos?|pictures?|pics?|images?)\s*#?\s*(\d+)/gi;
+
+const STOP_WORDS = new Set(['about', 'there', 'their', 'these', 'those', 'which', 'where', 'what', 'with', 'that', 'this', 'from', 'have', 'does', 'should', 'could', 'would', 'photo', 'picture', 'image']);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().match(/[a-z]{4,}/g)?.filter(word => !STOP_WORDS.has(word)) || []);
+
+/**
+ * Pick earlier photos the user is referring to, so they can be re-attached
+ * Order of preference: explicit numbers ("photo 2"), "first" / "last", description keywords,
+ * then the most recent photos when nothing new is attached.
+ * @param text - The user's message
+ * @param registry - Photos from earlier messages
+ * @param limit - Free image slots in this message
+ * @param hasNewImages - Whether the message attaches photos of its own
+ */
+export function selectReferencedImages(text: string, registry: SessionImage[], limit: number, hasNewImages: boolean): SessionImage[] {
+  if (limit <= 0 || registry.length === 0) return [];
+
+  const explicit = [...text.matchAll(EXPLICIT_NUMBER_PATTERN)]
+    .map(match => registry.find(image => image.number === Number(match[1])))
+    .filter((image): image is SessionImage => !!image);
+  if (explicit.length > 0) return [...new Set(explicit)].slice(0, limit);
+
+  const pointsBack = REFERENCE_PATTERN.test(text);
+
+  if (pointsBack && /\bfirst (photo|picture|pic|image|one)\b/i.test(text)) return [registry[0]];
+  if (pointsBack && /\b(last|previous|earlier) (photo|picture|pic|image|one)\b/i.test(text)) return [registry[registry.length - 1]];
+
+  // Without a pointing word, only a strong match (two shared words, e.g. "corroded pipe") counts
+  const words = keywords(text);
+  const matches = registry
+    .map(image => ({
+      image,
+      score: [...keywords(image.description)].filter(word => words.has(word)).length
+    }))
+    .filter(match => match.score >= (pointsBack ? 1 : 2))
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.image);
+  if (matches.length > 0) return matches.slice(0, limit);
+
+  if (!pointsBack) return [];
+
+  // "what about the pipe on the left?" with nothing attached - the latest photos are the likely subject
+  if (hasNewImages) return [];
+  const latestMessage = registry[registry.length - 1].message_index;
+  return imagesForMessage(registry, latestMessage).slice(0, limit);
+}
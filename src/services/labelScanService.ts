@@ -0,0 +1,154 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import { toast } from 'sonner';
+import { addAppliance, applianceTypeFromText } from './applianceService';
+import { addUserPart } from './partsService';
+import { generateAffiliateLinks } from './affiliateService';
+
+/**
+ * What kind of label was photographed
+ * - 'rating-plate': appliance data/rating plate (furnace, water heater, dishwasher...)
+ * - 'filter': filter size label (HVAC, fridge, water)
+ * - 'part-sticker': part number sticker or packaging
+ */
+export type LabelKind = 'rating-plate' | 'filter' | 'part-sticker' | 'other';
+
+/**
+ * Fields read from a label, empty strings when not printed or not legible
+ */
+export interface LabelScan {
+  kind: LabelKind;
+  /** What the label belongs to, e.g. "Gas water heater" or "Furnace air filter" */
+  item: string;
+  brand: string;
+  model: string;
+  serial: string;
+  /** As printed, or decoded from the serial number when the brand's format is known */
+  manufacture_date: string;
+  /** e.g. "16x25x1 in" for filters; capacity or size for appliances */
+  dimensions: string;
+}
+
+export const LABEL_KINDS: LabelKind[] = ['rating-plate', 'filter', 'part-sticker', 'other'];
+
+export const LABEL_KIND_LABELS: Record<LabelKind, string> = {
+  'rating-plate': 'Rating plate',
+  'filter': 'Filter label',
+  'part-sticker': 'Part sticker',
+  'other': 'Label'
+};
+
+/**
+ * Editable fields in the order they are shown for confirmation
+ */
+export const LABEL_FIELDS: Array<{ key: Exclude<keyof LabelScan, 'kind'>; label: string }> = [
+  { key: 'item', label: 'Item' },
+  { key: 'brand', label: 'Brand' },
+  { key: 'model', label: 'Model' },
+  { key: 'serial', label: 'Serial' },
+  { key: 'manufacture_date', label: 'Manufactured' },
+  { key: 'dimensions', label: 'Size / dimensions' }
+];
+
+export const LABEL_SCAN_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    kind: { type: SchemaType.STRING, format: "enum", enum: LABEL_KINDS },
+    item: { type: SchemaType.STRING, description: "What the label belongs to, e.g. Gas water heater" },
+    brand: { type: SchemaType.STRING },
+    model: { type: SchemaType.STRING, description: "Model number exactly as printed" },
+    serial: { type: SchemaType.STRING, description: "Serial number exactly as printed" },
+    manufacture_date: { type: SchemaType.STRING, description: "Manufacture date, e.g. 2016-03 or March 2016" },
+    dimensions: { type: SchemaType.STRING, description: "Size or dimensions, e.g. 16x25x1 in" }
+  },
+  required: ["kind", "item", "brand", "model", "serial", "manufacture_date", "dimensions"]
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Runtime validation for a label scan returned by the model
+ * @returns null unless at least one identifying field was read
+ */
+export function validateLabelScan(value: unknown): LabelScan | null {
+  if (!value || typeof value !== 'object') return null;
+  const scan = value as Record<string, unknown>;
+
+  const kind = LABEL_KINDS.includes(scan.kind as LabelKind) ? scan.kind as LabelKind : 'other';
+  const result: LabelScan = {
+    kind,
+    item: text(scan.item),
+    brand: text(scan.brand),
+    model: text(scan.model),
+    serial: text(scan.serial),
+    manufacture_date: text(scan.manufacture_date),
+    dimensions: text(scan.dimensions)
+  };
+
+  return result.brand || result.model || result.serial || result.dimensions ? result : null;
+}
+
+/**
+ * Short name for a scanned item, e.g. "Rheem Gas water heater (XG40T06EC36U1)" or "Air filter 16x25x1 in"
+ */
+export function labelDisplayName(scan: Omit<LabelScan, 'kind'>): string {
+  const name = [scan.brand, scan.item].filter(Boolean).join(' ') || 'Unknown item';
+  if (scan.model) return `${name} (${scan.model})`;
+  return scan.dimensions ? `${name} ${scan.dimensions}` : name;
+}
+
+/**
+ * One-line summary to drop into the chat, so the diagnosis knows the exact model
+ */
+export function formatLabelForChat(scan: LabelScan): string {
+  const details = LABEL_FIELDS
+    .filter(field => field.key !== 'item' && scan[field.key])
+    .map(field => `${field.label.toLowerCase()} ${scan[field.key]}`);
+  return `My ${scan.item || 'equipment'} label reads: ${details.join(', ')}.`;
+}
+
+/**
+ * Add a scanned appliance to the equipment registry, keeping the label photo
+ * @param scan - Fields confirmed by the user
+ * @param image - Photo of the label
+ * @returns true if successful, false otherwise
+ */
+export async function saveLabelAsAppliance(scan: LabelScan, image: string): Promise<boolean> {
+  const appliance = await addAppliance({
+    type: applianceTypeFromText(scan.item),
+    name: scan.item || labelDisplayName(scan),
+    brand: scan.brand,
+    model: scan.model,
+    serial: scan.serial,
+    manufacture_date: scan.manufacture_date
+  }, [image]);
+
+  return appliance !== null;
+}
+
+/**
+ * Save a scanned filter or part to the user's parts inventory (MaintenancePart)
+ * @param scan - Fields confirmed by the user
+ * @returns true if the part is in the inventory afterwards
+ */
+export async function saveLabelAsPart(scan: LabelScan): Promise<boolean> {
+  const name = labelDisplayName(scan);
+  // Exact model or size searches find the right replacement
+  const searchTerm = [scan.brand, scan.model || scan.dimensions, scan.item].filter(Boolean).join(' ');
+
+  const parts = await addUserPart({
+    name,
+    category: 'part',
+    affiliateLinks: generateAffiliateLinks(searchTerm),
+    brand: scan.brand || undefined,
+    modelNumber: scan.model || undefined,
+    dimensions: scan.dimensions || undefined
+  });
+
+  if (!parts.some(part => part.name === name)) {
+    toast.error('Failed to save part');
+    return false;
+  }
+
+  toast.success(`${name} saved to your parts`);
+  return true;
+}
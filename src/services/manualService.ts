@@ -0,0 +1,359 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import { supabase } from './supabaseClient';
+import { toast } from 'sonner';
+import { deleteMedia, uploadMedia } from './mediaService';
+
+/**
+ * One searchable passage of a manual and the page it came from
+ */
+export interface ManualChunk {
+  page: number;
+  text: string;
+}
+
+/**
+ * An owner's manual attached to an appliance or a saved repair
+ * Text is extracted and chunked on the device when the manual is added.
+ */
+export interface Manual {
+  id: string;
+  user_id: string;
+  appliance_id: string | null;
+  repair_id: string | null;
+  title: string;
+  source: 'pdf' | 'photos';
+  /** Original PDF or first page photo, a repair-media storage path */
+  file_path: string | null;
+  page_count: number;
+  chunks: ManualChunk[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ManualInput = Pick<Manual, 'title' | 'source'> & Partial<Pick<Manual, 'appliance_id' | 'repair_id'>>;
+
+/**
+ * A chunk matched to a question, ready to inject into the chat prompt
+ */
+export interface ManualPassage {
+  manual_id: string;
+  manual_title: string;
+  page: number;
+  text: string;
+  score: number;
+}
+
+/**
+ * A manual page an assistant reply was grounded in
+ */
+export interface ManualCitation {
+  manual_id: string;
+  manual_title: string;
+  page: number;
+}
+
+/**
+ * Pages read from one PDF - long service manuals beyond this are cut off
+ */
+export const MAX_MANUAL_PAGES = 400;
+
+/**
+ * Target passage length; pages are split on paragraph breaks
+ */
+const CHUNK_CHARS = 1200;
+
+/**
+ * Passages injected per chat message
+ */
+export const MAX_MANUAL_PASSAGES = 3;
+
+export const MANUAL_PAGE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    text: { type: SchemaType.STRING, description: "All legible text on the page in reading order" },
+    printed_page: { type: SchemaType.STRING, description: "Page number printed on the page, empty if none" }
+  },
+  required: ["text", "printed_page"]
+};
+
+/**
+ * Runtime validation for a transcribed manual page returned by the model
+ */
+export function validateManualPage(value: unknown): { text: string; printedPage: number | null } | null {
+  if (!value || typeof value !== 'object') return null;
+  const { text, printed_page } = value as Record<string, unknown>;
+  if (typeof text !== 'string' || !text.trim()) return null;
+
+  const printedPage = typeof printed_page === 'string' ? parseInt(printed_page, 10) : NaN;
+  return { text: text.trim(), printedPage: Number.isInteger(printedPage) && printedPage > 0 ? printedPage : null };
+}
+
+/**
+ * Read the text layer of a PDF, one string per page
+ * pdf.js is loaded on first use so it stays out of the main bundle.
+ * @returns Page texts (empty strings for pages without a text layer, e.g. scans)
+ */
+export async function extractPdfPages(file: File): Promise<string[]> {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_MANUAL_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Split text into pieces no longer than CHUNK_CHARS: paragraphs, then sentences, then hard cuts
+ */
+function splitText(text: string): string[] {
+  return text
+    .split(/\n\s*\n|\n(?=[A-Z0-9•-])/)
+    .flatMap(paragraph => (paragraph.length > CHUNK_CHARS ? paragraph.split(/(?<=[.!?])\s+/) : [paragraph]))
+    .flatMap(piece => piece.match(new RegExp(`[\\s\\S]{1,${CHUNK_CHARS}}`, 'g')) || [])
+    .map(piece => piece.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split page texts into passages of about CHUNK_CHARS, never across pages
+ * @param pages - Page texts with the page number each is cited by
+ */
+export function chunkManualPages(pages: Array<{ page: number; text: string }>): ManualChunk[] {
+  const chunks: ManualChunk[] = [];
+
+  for (const { page, text } of pages) {
+    let current = '';
+    for (const piece of splitText(text)) {
+      if (current && current.length + piece.length + 1 > CHUNK_CHARS) {
+        chunks.push({ page, text: current });
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+    if (current) chunks.push({ page, text: current });
+  }
+
+  return chunks;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'from', 'have', 'has', 'was', 'what',
+  'when', 'how', 'why', 'does', 'did', 'can', 'could', 'should', 'would', 'will', 'its', 'it\'s', 'there', 'their', 'they',
+  'then', 'than', 'into', 'out', 'about', 'just', 'any', 'all', 'some', 'been', 'being', 'like', 'get', 'got', 'make', 'mine'
+]);
+
+/**
+ * Search terms in a text: lowercase words of 3+ letters, plus short codes with digits (E4, F3)
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [])
+    .filter(token => !STOPWORDS.has(token) && (token.length >= 3 || (token.length >= 2 && /\d/.test(token))));
+}
+
+/**
+ * Rank manual passages against a question (BM25 over all chunks of the given manuals)
+ * A passage must share at least two distinct terms with the query (one for one-term queries).
+ * @returns Up to limit passages, best first
+ */
+export function searchManuals(manuals: Manual[], query: string, limit = MAX_MANUAL_PASSAGES): ManualPassage[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  const documents = manuals.flatMap(manual => manual.chunks.map(chunk => ({ manual, chunk, terms: tokenize(chunk.text) })));
+  if (documents.length === 0) return [];
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.terms.length, 0) / documents.length || 1;
+  const documentFrequency = new Map(queryTerms.map(term => [term, documents.filter(doc => doc.terms.includes(term)).length]));
+  const minMatches = Math.min(2, queryTerms.length);
+  const k1 = 1.2;
+  const b = 0.75;
+
+  return documents
+    .map(({ manual, chunk, terms }) => {
+      let score = 0;
+      let matched = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.filter(token => token === term).length;
+        if (frequency === 0) continue;
+        matched++;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * terms.length / averageLength));
+      }
+      const passage: ManualPassage = { manual_id: manual.id, manual_title: manual.title, page: chunk.page, text: chunk.text, score };
+      return { passage, matched };
+    })
+    .filter(result => result.matched >= minMatches)
+    .sort((x, y) => y.passage.score - x.passage.score)
+    .slice(0, limit)
+    .map(result => result.passage);
+}
+
+/**
+ * Passages as the "manual-passages" prompt block, each headed with its citation
+ */
+export function formatManualPassages(passages: ManualPassage[]): string {
+  return passages.map(passage => `[${passage.manual_title}, p. ${passage.page}]\n${passage.text}`).join('\n\n');
+}
+
+/**
+ * Distinct manual pages from the passages that a reply actually cites ("p. 12", "page 12")
+ */
+export function citedManualPages(passages: ManualPassage[], reply: string): ManualCitation[] {
+  const seen = new Set<string>();
+  return passages
+    .filter(passage => {
+      const key = `${passage.manual_id}:${passage.page}`;
+      if (seen.has(key) || !new RegExp(`\\bp(?:age|\\.)?\\s*${passage.page}\\b`, 'i').test(reply)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ manual_id, manual_title, page }) => ({ manual_id, manual_title, page }))
+    .sort((a, b) => a.manual_title.localeCompare(b.manual_title) || a.page - b.page);
+}
+
+/**
+ * Get the current user's manuals, optionally only those attached to one appliance or repair
+ */
+export async function getManuals(attachedTo: { applianceId?: string; repairId?: string } = {}): Promise<Manual[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    let query = supabase
+      .from('manuals')
+      .select('*')
+      .eq('user_id', user.id);
+    if (attachedTo.applianceId) query = query.eq('appliance_id', attachedTo.applianceId);
+    if (attachedTo.repairId) query = query.eq('repair_id', attachedTo.repairId);
+
+    const { data, error } = await query.order('title');
+
+    if (error) {
+      console.error('Error fetching manuals:', error);
+      return [];
+    }
+
+    return (data || []) as Manual[];
+  } catch (error) {
+    console.error('Error in getManuals:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a manual and its extracted passages
+ * @param input - Title, source and what it is attached to
+ * @param pages - Extracted page texts with their page numbers
+ * @param file - The PDF or first page photo as a data URL, kept for viewing
+ * @returns The saved manual or null if failed
+ */
+export async function addManual(
+  input: ManualInput,
+  pages: Array<{ page: number; text: string }>,
+  file?: string | null
+): Promise<Manual | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to save manuals');
+      return null;
+    }
+
+    const chunks = chunkManualPages(pages);
+    if (chunks.length === 0) {
+      toast.error('No text found in this manual');
+      return null;
+    }
+
+    const filePath = file ? await uploadMedia(file, 'manuals') : null;
+
+    const { data, error } = await supabase
+      .from('manuals')
+      .insert({
+        user_id: user.id,
+        appliance_id: input.appliance_id || null,
+        repair_id: input.repair_id || null,
+        title: input.title.trim(),
+        source: input.source,
+        file_path: filePath,
+        page_count: pages.length,
+        chunks,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding manual:', error);
+      toast.error('Failed to save manual');
+      if (filePath) await deleteMedia([filePath]);
+      return null;
+    }
+
+    toast.success(`${input.title.trim()} added to your manuals`);
+    window.dispatchEvent(new Event('manualSaved'));
+
+    return data as Manual;
+  } catch (error) {
+    console.error('Error in addManual:', error);
+    toast.error('An error occurred while saving');
+    return null;
+  }
+}
+
+/**
+ * Delete a manual and its stored file
+ * @returns true if successful, false otherwise
+ */
+export async function deleteManual(manual: Manual): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to delete manuals');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('manuals')
+      .delete()
+      .eq('id', manual.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting manual:', error);
+      toast.error('Failed to delete manual');
+      return false;
+    }
+
+    if (manual.file_path) await deleteMedia([manual.file_path]);
+    toast.success('Manual deleted');
+    window.dispatchEvent(new Event('manualSaved'));
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteManual:', error);
+    toast.error('An error occurred while deleting');
+    return false;
+  }
+}
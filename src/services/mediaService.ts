@@ -0,0 +1,99 @@
+import { supabase } from './supabaseClient';
+
+/**
+ * Private storage bucket for photos and audio attached to repairs
+ */
+const MEDIA_BUCKET = 'repair-media';
+
+/**
+ * How long playback/download links stay valid
+ */
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+};
+
+/**
+ * Upload a base64 data URL to the user's folder in the media bucket
+ * @param dataUrl - data:<mime>;base64,... content
+ * @param folder - Sub-folder inside the user's folder, e.g. 'audio'
+ * @returns The storage path, or null if the upload failed
+ */
+export async function uploadMedia(dataUrl: string, folder: string): Promise<string | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const blob = await (await fetch(dataUrl)).blob();
+    const extension = EXTENSIONS[blob.type] || 'bin';
+    const path = `${user.id}/${folder}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, blob, { contentType: blob.type });
+
+    if (error) {
+      console.error('Error uploading media:', error);
+      return null;
+    }
+
+    return path;
+  } catch (error) {
+    console.error('Error in uploadMedia:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a temporary URL for a stored media file
+ */
+export async function getMediaUrl(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Error creating media URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+/**
+ * Load media (e.g. a signed URL) as a base64 data URL so it can be sent to the model again
+ * @returns The data URL, or null if it could not be fetched
+ */
+export async function fetchAsDataUrl(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return url;
+
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.error('Error in fetchAsDataUrl:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove stored media files (e.g. when their repair is deleted)
+ */
+export async function deleteMedia(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error deleting media:', error);
+  }
+}
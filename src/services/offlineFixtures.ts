@@ -0,0 +1,165 @@
+import type { DiagnosisResult } from './diagnosisService';
+
+/**
+ * Scripted diagnosis scenarios for the offline AI provider
+ * A scenario is picked when any of its keywords appears in the user's messages;
+ * the last entry is the catch-all used when nothing matches.
+ */
+export interface OfflineScenario {
+  id: string;
+  keywords: string[];
+  /** Phase 1 - observation of what the user shared */
+  observation: string;
+  /** Phase 1 - clarifying questions */
+  questions: string[];
+  /** Phase 2 - summary of the suspected issue */
+  summary: string;
+  /** Phase 3 - the full repair guide */
+  guide: Required<Omit<DiagnosisResult, 'source' | 'prompt_version' | 'safety' | 'safety_acknowledged_at' | 'cost_estimate' | 'active_hypothesis'>>;
+}
+
+export const OFFLINE_SCENARIOS: OfflineScenario[] = [
+  {
+    id: 'running-toilet',
+    keywords: ['toilet', 'flush', 'tank', 'flapper', 'running water'],
+    observation: "It sounds like your toilet keeps running or refilling on its own. That is almost always a problem inside the tank rather than with the bowl or supply line.",
+    questions: [
+      "Does the tank refill by itself every few minutes even when nobody has flushed?",
+      "If you lift the tank lid, is the water level above the top of the overflow tube?"
+    ],
+    summary: "Based on what you described, the flapper at the bottom of the tank is most likely worn and letting water leak into the bowl, so the fill valve keeps topping the tank back up.",
+    guide: {
+      title: 'Worn Toilet Flapper Causing a Running Toilet',
+      summary: 'The rubber flapper no longer seals against the flush valve seat, so water slowly leaks from the tank into the bowl and the fill valve cycles on to refill it.',
+      difficulty: 'Easy',
+      possible_causes: [
+        'Warped or mineral-coated flapper',
+        'Lift chain too short and holding the flapper open',
+        'Fill valve set too high so water spills into the overflow tube'
+      ],
+      parts_needed: ['Universal 2-inch toilet flapper'],
+      tools_needed: ['Sponge', 'Bucket', 'Rubber gloves'],
+      steps: [
+        'Turn off the water supply valve behind the toilet by turning it clockwise until it stops.',
+        'Flush the toilet and hold the handle down to drain as much water from the tank as possible, then sponge out the rest.',
+        'Unhook the lift chain from the flush lever and slide the old flapper ears off the pegs on the overflow tube.',
+        'Install the new flapper on the pegs, clip the chain to the lever leaving about 1/2 inch of slack, then turn the water back on and test several flushes.'
+      ],
+      prevention_tips: [
+        'Avoid in-tank bleach or chlorine tablets, which break down rubber flappers.',
+        'Check the flapper once a year by adding food coloring to the tank and watching for color in the bowl.'
+      ],
+      tutorial_search_term: 'replace toilet flapper easy',
+      hypotheses: [
+        {
+          cause: 'Worn or warped flapper',
+          confidence: 70,
+          distinguishing_test: 'Add a few drops of food coloring to the tank and wait 15 minutes without flushing - color in the bowl means the flapper is leaking.'
+        },
+        {
+          cause: 'Fill valve set too high',
+          confidence: 20,
+          distinguishing_test: 'Lift the tank lid - if water is trickling into the top of the overflow tube, the fill level is too high.'
+        },
+        {
+          cause: 'Lift chain too short',
+          confidence: 10,
+          distinguishing_test: 'With the tank full, check the chain - if it is tight with the flapper closed, it is holding the flapper open.'
+        }
+      ]
+    }
+  },
+  {
+    id: 'leaky-faucet',
+    keywords: ['faucet', 'drip', 'tap', 'sink'],
+    observation: "A dripping faucet usually points to a worn seal inside the handle assembly. The fix depends on whether it's a cartridge, ball, or compression style faucet.",
+    questions: [
+      "Is it one handle or two separate hot and cold handles?",
+      "Does the drip come from the spout or from around the base of the handle?"
+    ],
+    summary: "It sounds like the cartridge in your single-handle faucet has worn out, which lets water seep past when the faucet is closed.",
+    guide: {
+      title: 'Worn Faucet Cartridge Causing a Dripping Spout',
+      summary: 'The cartridge seals inside the faucet body have worn or collected mineral deposits, so they no longer fully shut off water flow.',
+      difficulty: 'Medium',
+      possible_causes: [
+        'Worn cartridge seals',
+        'Mineral buildup on the cartridge',
+        'Damaged O-rings'
+      ],
+      parts_needed: ['Replacement faucet cartridge', 'Faucet O-ring kit', 'Plumber\'s grease'],
+      tools_needed: ['Adjustable wrench', 'Phillips screwdriver', 'Hex key set'],
+      steps: [
+        'Shut off the hot and cold supply valves under the sink and open the faucet to relieve pressure.',
+        'Pry off the decorative cap, remove the handle screw, and lift the handle off.',
+        'Remove the retaining nut or clip and pull the old cartridge straight out, noting its orientation.',
+        'Grease the new cartridge O-rings, insert it in the same orientation, reassemble the handle, and restore water to test.'
+      ],
+      prevention_tips: [
+        'Do not overtighten handles when closing the faucet.',
+        'Clean aerators and wipe mineral deposits every few months in hard-water areas.'
+      ],
+      tutorial_search_term: 'replace single handle cartridge',
+      hypotheses: [
+        {
+          cause: 'Worn cartridge seals',
+          confidence: 65,
+          distinguishing_test: 'If the drip comes from the spout and continues with the handle fully off, the cartridge is not sealing.'
+        },
+        {
+          cause: 'Damaged O-rings',
+          confidence: 25,
+          distinguishing_test: 'If water seeps around the base of the spout or handle only while the faucet runs, it is the O-rings.'
+        },
+        {
+          cause: 'Mineral buildup on the cartridge',
+          confidence: 10,
+          distinguishing_test: 'If the handle feels stiff or gritty and you see white crust on the aerator, scale is holding the cartridge open.'
+        }
+      ]
+    }
+  },
+  {
+    id: 'general-repair',
+    keywords: [],
+    observation: "Thanks for sharing that. I can see this is a home repair issue, but I need a bit more detail to narrow it down.",
+    questions: [
+      "When did you first notice the problem, and has it gotten worse?",
+      "Is anything leaking, making noise, or not turning on?"
+    ],
+    summary: "From your answers, this looks like a worn component that needs to be inspected and replaced.",
+    guide: {
+      title: 'Worn Component Needing Inspection and Replacement',
+      summary: 'A component has worn out from normal use and is no longer working as intended.',
+      difficulty: 'Medium',
+      possible_causes: [
+        'Normal wear and tear',
+        'Loose or corroded connections'
+      ],
+      parts_needed: ['Replacement component'],
+      tools_needed: ['Screwdriver set', 'Flashlight'],
+      steps: [
+        'Turn off power or water to the area before starting.',
+        'Inspect the component and surrounding connections for visible damage or wear.',
+        'Remove the worn component, taking a photo first so you can match the replacement.',
+        'Install the replacement, restore power or water, and confirm it works.'
+      ],
+      prevention_tips: [
+        'Inspect the area during routine seasonal maintenance.'
+      ],
+      tutorial_search_term: 'home repair replacement basics',
+      hypotheses: [
+        {
+          cause: 'Normal wear and tear',
+          confidence: 60,
+          distinguishing_test: 'If the part looks cracked, worn smooth or discolored next to a new one, it has worn out.'
+        },
+        {
+          cause: 'Loose or corroded connections',
+          confidence: 40,
+          distinguishing_test: 'If wiggling or tightening the connections changes how it behaves, the connection is the problem.'
+        }
+      ]
+    }
+  }
+];
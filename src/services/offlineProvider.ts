@@ -0,0 +1,234 @@
+import type { AiProvider, ChatHistory, StructuredRequest } from "./aiProvider";
+import type { DiagnosisDifficulty } from "./diagnosisService";
+import { OFFLINE_SCENARIOS, type OfflineScenario } from "./offlineFixtures";
+import { CONFIRM_GUIDE_REPLY, formatQuickReplyMarker } from "./quickReplyService";
+
+/**
+ * Delay between streamed chunks so the UI behaves like a live model
+ */
+const CHUNK_DELAY_MS = 30;
+
+const wait = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * Replies that move the scripted conversation to the full guide (Phase 3)
+ */
+const CONFIRMATION_PATTERN = /\b(yes|yeah|yep|correct|sounds right|that's right|let's fix|go ahead|please do|sure)\b/i;
+
+/**
+ * Pick the scenario whose keywords best match what the user has said
+ */
+function pickScenario(userText: string): OfflineScenario {
+  const text = userText.toLowerCase();
+  let best = OFFLINE_SCENARIOS[OFFLINE_SCENARIOS.length - 1];
+  let bestScore = 0;
+
+  for (const scenario of OFFLINE_SCENARIOS) {
+    const score = scenario.keywords.filter(keyword => text.includes(keyword)).length;
+    if (score > bestScore) {
+      best = scenario;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+const historyText = (history: ChatHistory, role: 'user' | 'model'): string[] =>
+  history
+    .filter(msg => msg.role === role)
+    .map(msg => msg.parts.map(part => part.text || '').join(' '))
+    .filter(text => text.trim().length > 0);
+
+/**
+ * Render a scenario guide in the Phase 3 text format from the chat-system prompt
+ */
+function formatGuideText(scenario: OfflineScenario): string {
+  const { guide } = scenario;
+  return [
+    '---',
+    '',
+    `**IDENTIFIED ISSUE:** ${guide.title}`,
+    '',
+    `**WHAT'S WRONG:** ${guide.summary}`,
+    '',
+    '**POSSIBLE CAUSES:**',
+    ...guide.possible_causes.map(cause => `- ${cause}`),
+    '',
+    `**DIFFICULTY:** ${guide.difficulty}`,
+    '',
+    '**REQUIRED PARTS:**',
+    ...guide.parts_needed.map(part => `- ${part}`),
+    '',
+    '**REQUIRED TOOLS:**',
+    ...guide.tools_needed.map(tool => `- ${tool}`),
+    '',
+    '**REPAIR STEPS:**',
+    ...guide.steps.map((step, idx) => `${idx + 1}. ${step}`),
+    '',
+    '**PREVENTION TIPS:**',
+    ...guide.prevention_tips.map(tip => `- ${tip}`),
+    '',
+    `**TUTORIAL SEARCH TERM:** ${guide.tutorial_search_term}`,
+    '',
+    '---'
+  ].join('\n');
+}
+
+/**
+ * Render a scenario in the legacy one-shot analysis format
+ */
+function formatAnalysisText(scenario: OfflineScenario): string {
+  const { guide } = scenario;
+  return [
+    `IDENTIFIED ISSUE: ${guide.title}`,
+    `WHAT COULD BE WRONG AND POSSIBLE CAUSES:`,
+    ...guide.possible_causes.map(cause => `- ${cause}`),
+    `DIFFICULTY: ${guide.difficulty}`,
+    'REPAIR STEPS:',
+    ...guide.steps.map((step, idx) => `${idx + 1}. ${step}`),
+    'REQUIRED PARTS:',
+    ...guide.parts_needed.map(part => `- ${part}`),
+    'REQUIRED TOOLS:',
+    ...guide.tools_needed.map(tool => `- ${tool}`),
+    'PREVENTION TIPS:',
+    ...guide.prevention_tips.map(tip => `- ${tip}`),
+    `TUTORIAL SEARCH TERM: ${guide.tutorial_search_term}`
+  ].join('\n');
+}
+
+/**
+ * Rough DIY hours and pro prices by difficulty for the scripted cost estimate
+ */
+const OFFLINE_COSTS: Record<DiagnosisDifficulty, { hours: [number, number]; pro: [number, number] }> = {
+  Easy: { hours: [0.5, 1], pro: [120, 250] },
+  Medium: { hours: [1, 3], pro: [200, 450] },
+  Hard: { hours: [3, 6], pro: [400, 1200] }
+};
+
+/**
+ * Fixture responses for generateStructured, by task
+ * The provider can't look at photos, so photo tasks (describe-images, step-photo-check, verify-repair,
+ * scan-label, manual-page) answer with an empty reading - callers then take the same
+ * "couldn't read it" path they use when the live model finds nothing useful.
+ */
+const STRUCTURED_FIXTURES: Record<string, (scenario: OfflineScenario, request: StructuredRequest) => unknown> = {
+  'final-guide': scenario => scenario.guide,
+
+  // Scenarios script one set of steps, so only the title and summary follow the chosen cause
+  'hypothesis-guide': (scenario, request) => {
+    const hypothesis = scenario.guide.hypotheses.find(h => request.prompt.includes(h.cause));
+    return hypothesis
+      ? { ...scenario.guide, title: hypothesis.cause, summary: `${hypothesis.cause}. ${hypothesis.distinguishing_test}` }
+      : scenario.guide;
+  },
+
+  // Hazard tagging is left to the keyword rules, which always run on top of this
+  'safety-classification': () => ({ hazards: [], severity: 'low', ppe: [], shutoff_steps: [], call_a_pro: false, reason: '' }),
+
+  'conversation-memory': scenario => ({
+    observations: [scenario.observation],
+    answered_questions: [],
+    ruled_out_causes: [],
+    suspected_issue: scenario.guide.title
+  }),
+
+  'cost-estimate': scenario => {
+    const costs = OFFLINE_COSTS[scenario.guide.difficulty || 'Medium'];
+    return {
+      parts: scenario.guide.parts_needed.map(name => ({ name, cost_low: 8, cost_high: 25 })),
+      tools: scenario.guide.tools_needed.map(name => ({ name, cost_low: 5, cost_high: 20 })),
+      diy_hours_low: costs.hours[0],
+      diy_hours_high: costs.hours[1],
+      pro_cost_low: costs.pro[0],
+      pro_cost_high: costs.pro[1],
+      pro_basis: 'Demo estimate - typical service call plus labor'
+    };
+  },
+
+  'step-help': scenario => ({
+    answer: `Demo mode can't answer questions about a step. Re-read the step carefully, or search for "${scenario.guide.tutorial_search_term}" for a video walkthrough.`
+  }),
+
+  'describe-images': (_, request) => ({ descriptions: (request.images || []).map(() => '') }),
+  'step-photo-check': () => ({ verdict: 'unclear', feedback: '' }),
+  'verify-repair': () => ({ verdict: 'concern', summary: '', suggestions: [] }),
+  'scan-label': () => ({ kind: 'other', item: '', brand: '', model: '', serial: '', manufacture_date: '', dimensions: '' }),
+  'manual-page': () => ({ text: '', printed_page: '' })
+};
+
+/**
+ * Offline adapter for the AiProvider interface
+ * Walks the same three-phase conversation as the live model using OFFLINE_SCENARIOS,
+ * so the full diagnosis flow can be demoed and tested without a key or network.
+ */
+export function createOfflineProvider(): AiProvider {
+  return {
+    id: 'offline',
+
+    async analyzeImage(request) {
+      return formatAnalysisText(pickScenario(request.userInput || ''));
+    },
+
+    async analyzeTextIssue(request) {
+      return formatAnalysisText(pickScenario(request.userInput || ''));
+    },
+
+    async askClarifyingQuestion(request) {
+      return pickScenario(request.userInput || '').questions[0];
+    },
+
+    async refineAnalysis(request) {
+      return formatGuideText(pickScenario(request.userInput || ''));
+    },
+
+    async generateStructured(request) {
+      if (request.signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+      // Follow-up tasks carry no history - their prompt holds the guide or turns to match on
+      const userText = historyText(request.history || [], 'user').join(' ');
+      const scenario = pickScenario(userText || request.prompt);
+
+      const fixture = STRUCTURED_FIXTURES[request.task];
+      if (!fixture) {
+        throw new Error(`Offline provider has no fixture for task "${request.task}"`);
+      }
+      return JSON.stringify(fixture(scenario, request));
+    },
+
+    async *sendMessageStream({ text, history, signal }) {
+      const userText = [...historyText(history, 'user'), text].join(' ');
+      const scenario = pickScenario(userText);
+      const modelTurns = historyText(history, 'model').length;
+
+      let reply: string;
+      if (modelTurns === 0) {
+        // Phase 1: observation + clarifying questions
+        reply = [
+          scenario.observation,
+          '',
+          ...scenario.questions.map((q, idx) => `${idx + 1}. ${q}`),
+          formatQuickReplyMarker({ phase: 'questions', replies: ["I don't know", 'It started recently', "It's been a while"] })
+        ].join('\n');
+      } else if (CONFIRMATION_PATTERN.test(text)) {
+        // Phase 3: full repair guide
+        reply = [
+          formatGuideText(scenario),
+          formatQuickReplyMarker({ phase: 'guide', replies: ["What if that doesn't fix it?", 'How long will this take?'] })
+        ].join('\n');
+      } else {
+        // Phase 2: confirmation
+        reply = [
+          `${scenario.summary}\n\nDoes this sound like the right problem? Should I provide the full repair guide?`,
+          formatQuickReplyMarker({ phase: 'confirmation', replies: [CONFIRM_GUIDE_REPLY, 'Not quite - let me explain'] })
+        ].join('\n');
+      }
+
+      const words = reply.split(/(\s+)/);
+      for (let i = 0; i < words.length; i += 6) {
+        await wait(CHUNK_DELAY_MS);
+        if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+        yield words.slice(i, i + 6).join('');
+      }
+    }
+  };
+}
@@ -14,6 +14,10 @@ export interface MaintenancePart {
   estimatedCost?: number;
   lastPurchased?: number;
   purchaseFrequency?: string;
+  /** Read from a part sticker or filter label (see labelScanService) */
+  brand?: string;
+  modelNumber?: string;
+  dimensions?: string;
   userId: string;
   createdAt: number;
   updatedAt: number;
@@ -54,6 +58,9 @@ export async function getUserParts(): Promise<MaintenancePart[]> {
       estimatedCost: part.estimated_cost,
       lastPurchased: part.last_purchased ? new Date(part.last_purchased).getTime() : undefined,
       purchaseFrequency: part.purchase_frequency,
+      brand: part.brand || undefined,
+      modelNumber: part.model_number || undefined,
+      dimensions: part.dimensions || undefined,
       userId: part.user_id,
       createdAt: new Date(part.created_at).getTime(),
       updatedAt: new Date(part.updated_at).getTime()
@@ -84,6 +91,9 @@ export async function addUserPart(part: Omit<MaintenancePart, 'id' | 'userId' |
         estimated_cost: part.estimatedCost,
         last_purchased: part.lastPurchased ? new Date(part.lastPurchased).toISOString() : null,
         purchase_frequency: part.purchaseFrequency,
+        brand: part.brand || null,
+        model_number: part.modelNumber || null,
+        dimensions: part.dimensions || null,
         user_id: user.id
       });
 
@@ -117,6 +127,9 @@ export async function updateUserPart(id: string, updates: Partial<MaintenancePar
     if (updates.estimatedCost !== undefined) updateData.estimated_cost = updates.estimatedCost;
     if (updates.lastPurchased) updateData.last_purchased = new Date(updates.lastPurchased).toISOString();
     if (updates.purchaseFrequency) updateData.purchase_frequency = updates.purchaseFrequency;
+    if (updates.brand !== undefined) updateData.brand = updates.brand;
+    if (updates.modelNumber !== undefined) updateData.model_number = updates.modelNumber;
+    if (updates.dimensions !== undefined) updateData.dimensions = updates.dimensions;
 
     const { error } = await supabase
       .from('maintenance_parts')
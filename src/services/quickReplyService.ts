@@ -0,0 +1,105 @@
+/**
+ * Quick replies for the diagnosis chat
+ * The chat-system prompt asks the model to end every reply with a hidden marker line
+ * holding the conversation phase and a few suggested answers, which Scanner shows
+ * as tappable chips.
+ */
+
+/**
+ * Where the three-phase conversation is
+ * - 'questions': Phase 1, clarifying questions
+ * - 'confirmation': Phase 2, "Should I provide the full repair guide?"
+ * - 'guide': Phase 3, the full repair guide was given
+ */
+export type ChatPhase = 'questions' | 'confirmation' | 'guide';
+
+export interface QuickReplies {
+  phase: ChatPhase;
+  replies: string[];
+}
+
+/**
+ * Reply that moves Phase 2 on to the full guide
+ */
+export const CONFIRM_GUIDE_REPLY = 'Yes, give me the full guide';
+
+const PHASES: ChatPhase[] = ['questions', 'confirmation', 'guide'];
+
+const MAX_REPLIES = 4;
+const MAX_REPLY_LENGTH = 60;
+
+/**
+ * <<<REPLIES {"phase": "...", "replies": [...]}>>> on its own line
+ */
+const MARKER_PATTERN = /\n?[ \t]*<<<REPLIES\s*(\{[\s\S]*?\})\s*>>>[ \t]*/;
+
+/**
+ * The start of a marker that is still streaming in
+ */
+const PARTIAL_MARKER_PATTERN = /\n?[ \t]*<{1,3}(R(E(P(L(I(E(S[\s\S]*)?)?)?)?)?)?)?$/;
+
+/**
+ * Text the model uses to ask for Phase 2 confirmation, for replies without a marker
+ */
+const CONFIRMATION_QUESTION = /should i (provide|give you|write up) the (full|complete) (repair )?guide/i;
+
+/**
+ * Render the marker line (used by the offline provider to mirror the live model)
+ */
+export function formatQuickReplyMarker(quickReplies: QuickReplies): string {
+  return `<<<REPLIES ${JSON.stringify(quickReplies)}>>>`;
+}
+
+/**
+ * Runtime validation for a parsed marker
+ */
+export function validateQuickReplies(value: unknown): QuickReplies | null {
+  if (!value || typeof value !== 'object') return null;
+  const { phase, replies } = value as Record<string, unknown>;
+
+  if (typeof phase !== 'string' || !PHASES.includes(phase as ChatPhase)) return null;
+  if (!Array.isArray(replies)) return null;
+
+  return {
+    phase: phase as ChatPhase,
+    replies: replies
+      .filter((reply): reply is string => typeof reply === 'string')
+      .map(reply => reply.trim())
+      .filter(reply => reply.length > 0 && reply.length <= MAX_REPLY_LENGTH)
+      .slice(0, MAX_REPLIES)
+  };
+}
+
+/**
+ * Split a finished reply into the text to show and its quick replies
+ * Replies without a (valid) marker fall back to phase detection from the text,
+ * so the guide confirmation button still appears.
+ * @param reply - The full reply text
+ * @param hasGuide - Whether the reply contains the full repair guide
+ */
+export function extractQuickReplies(reply: string, hasGuide = false): { text: string; quickReplies: QuickReplies | null } {
+  const match = reply.match(MARKER_PATTERN);
+  const text = reply.replace(MARKER_PATTERN, '').trim();
+
+  if (match) {
+    try {
+      const quickReplies = validateQuickReplies(JSON.parse(match[1]));
+      if (quickReplies) return { text, quickReplies };
+    } catch (error) {
+      console.warn('Could not parse quick replies:', error);
+    }
+  }
+
+  if (hasGuide) return { text, quickReplies: { phase: 'guide', replies: [] } };
+  if (CONFIRMATION_QUESTION.test(text)) {
+    return { text, quickReplies: { phase: 'confirmation', replies: [CONFIRM_GUIDE_REPLY, 'Not quite - let me explain'] } };
+  }
+  return { text, quickReplies: null };
+}
+
+/**
+ * Hide the marker while a reply is still streaming
+ */
+export function stripQuickReplyMarker(partialReply: string): string {
+  return partialReply.replace(MARKER_PATTERN, '').replace(PARTIAL_MARKER_PATTERN, '');
+}
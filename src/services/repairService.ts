@@ -1,5 +1,16 @@
 import { supabase } from './supabaseClient';
 import { toast } from 'sonner';
+import type { HazardCategory, HazardSeverity, SafetyAssessment } from './safetyService';
+import type { DiagnosisDifficulty } from './diagnosisService';
+import { deleteMedia, uploadMedia } from './mediaService';
+import type { RepairProgress } from './guidedRepairService';
+import type { CostEstimate } from './costEstimateService';
+import {
+  statusForVerdict,
+  type RepairStatus,
+  type RepairVerification,
+  type VerificationResult
+} from './repairVerificationService';
 
 export interface SavedRepair {
   id: string;
@@ -9,13 +20,47 @@ export interface SavedRepair {
   parts_needed: string[];
   tools_needed: string[];
   steps: string[];
+  difficulty?: DiagnosisDifficulty | null;
+  possible_causes?: string[] | null;
+  prevention_tips?: string[] | null;
+  /** Short search phrase for video and article tutorials */
+  tutorial_search_term?: string | null;
+  prompt_version?: string | null;
+  hazard_tags?: HazardCategory[] | null;
+  hazard_severity?: HazardSeverity | null;
+  /** When the user acknowledged a high-risk repair's risks, unlocking its steps */
+  safety_acknowledged_at?: string | null;
+  /** Storage paths of audio clips recorded during the diagnosis (see mediaService) */
+  audio_clips?: string[] | null;
+  /** Conversation that produced this repair (see diagnosisSessionService) */
+  session_id?: string | null;
+  /** Guided repair mode progress (see guidedRepairService) */
+  progress?: RepairProgress | null;
+  /** 'resolved' once an after-photo passes verification (see repairVerificationService) */
+  status?: RepairStatus | null;
+  resolved_at?: string | null;
+  /** "Verify fix" attempts, oldest first */
+  verifications?: RepairVerification[] | null;
+  /** DIY versus pro cost and time (see costEstimateService) */
+  cost_estimate?: CostEstimate | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Extra data captured during the diagnosis conversation
+ */
+export interface SaveRepairOptions {
+  /** Audio clips as data URLs */
+  audioClips?: string[];
+  /** Diagnosis session the repair came from */
+  sessionId?: string;
+}
+
 /**
  * Save a completed repair diagnosis to the user's profile
  * @param diagnosisResult - The diagnosis result from the AI
+ * @param options - Optional media (uploaded to storage) and the conversation to link the repair to
  * @returns The saved repair object or null if failed
  */
 export async function saveRepairDiagnosis(diagnosisResult: {
@@ -24,7 +69,15 @@ export async function saveRepairDiagnosis(diagnosisResult: {
   parts_needed: string[];
   tools_needed: string[];
   steps: string[];
-}): Promise<SavedRepair | null> {
+  difficulty?: DiagnosisDifficulty;
+  possible_causes?: string[];
+  prevention_tips?: string[];
+  tutorial_search_term?: string;
+  prompt_version?: string;
+  safety?: SafetyAssessment;
+  safety_acknowledged_at?: string;
+  cost_estimate?: CostEstimate;
+}, options: SaveRepairOptions = {}): Promise<SavedRepair | null> {
   try {
     // Get authenticated user
     const { data: { user } } = await supabase.auth.getUser();
@@ -34,6 +87,9 @@ export async function saveRepairDiagnosis(diagnosisResult: {
       return null;
     }
 
+    // Upload media first so the repair row can reference it; failed uploads are skipped
+    const audioPaths = await Promise.all((options.audioClips || []).map(clip => uploadMedia(clip, 'audio')));
+
     // Insert repair into database
     const { data, error } = await supabase
       .from('repairs')
@@ -44,6 +100,17 @@ export async function saveRepairDiagnosis(diagnosisResult: {
         parts_needed: diagnosisResult.parts_needed,
         tools_needed: diagnosisResult.tools_needed,
         steps: diagnosisResult.steps,
+        difficulty: diagnosisResult.difficulty || null,
+        possible_causes: diagnosisResult.possible_causes || [],
+        prevention_tips: diagnosisResult.prevention_tips || [],
+        tutorial_search_term: diagnosisResult.tutorial_search_term || null,
+        prompt_version: diagnosisResult.prompt_version || null,
+        hazard_tags: diagnosisResult.safety?.hazards || [],
+        hazard_severity: diagnosisResult.safety?.severity || null,
+        safety_acknowledged_at: diagnosisResult.safety_acknowledged_at || null,
+        audio_clips: audioPaths.filter((path): path is string => !!path),
+        session_id: options.sessionId || null,
+        cost_estimate: diagnosisResult.cost_estimate || null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
@@ -115,11 +182,12 @@ export async function deleteRepair(repairId: string): Promise<boolean> {
       return false;
     }
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('repairs')
       .delete()
       .eq('id', repairId)
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .select('audio_clips, verifications');
 
     if (error) {
       console.error('Error deleting repair:', error);
@@ -127,6 +195,14 @@ export async function deleteRepair(repairId: string): Promise<boolean> {
       return false;
     }
 
+    // Clean up stored media for the deleted repair
+    await deleteMedia((data || []).flatMap(row => [
+      ...(row.audio_clips || []),
+      ...((row.verifications || []) as RepairVerification[])
+        .flatMap(verification => [verification.before_image, verification.after_image])
+        .filter((path): path is string => !!path)
+    ]));
+
     toast.success('Repair deleted');
     
     // Dispatch custom event to notify other components
@@ -141,3 +217,198 @@ export async function deleteRepair(repairId: string): Promise<boolean> {
   }
 }
 
+
+/**
+ * Get the guided repair progress saved on a repair
+ * @param repairId - The ID of the repair
+ * @returns The saved progress, or null if none was saved or the request failed
+ */
+export async function getRepairProgress(repairId: string): Promise<RepairProgress | null> {
+  try {
+    const { data, error } = await supabase
+      .from('repairs')
+      .select('progress')
+      .eq('id', repairId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching repair progress:', error);
+      return null;
+    }
+
+    return (data?.progress as RepairProgress | null) || null;
+
+  } catch (error) {
+    console.error('Error in getRepairProgress:', error);
+    return null;
+  }
+}
+
+/**
+ * Save guided repair progress so the repair can be resumed later
+ * Called on every step change, so failures are logged rather than toasted
+ * @param repairId - The ID of the repair
+ * @param progress - Progress to store
+ * @returns true if successful, false otherwise
+ */
+export async function saveRepairProgress(repairId: string, progress: RepairProgress): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('repairs')
+      .update({ progress, updated_at: new Date().toISOString() })
+      .eq('id', repairId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving repair progress:', error);
+      return false;
+    }
+
+    return true;
+
+  } catch (error) {
+    console.error('Error in saveRepairProgress:', error);
+    return false;
+  }
+}
+
+/**
+ * Attach a cost estimate that finished after the repair was saved
+ * @param repairId - The ID of the repair
+ * @param estimate - Estimate to store
+ * @returns true if successful, false otherwise
+ */
+export async function saveRepairCostEstimate(repairId: string, estimate: CostEstimate): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('repairs')
+      .update({ cost_estimate: estimate, updated_at: new Date().toISOString() })
+      .eq('id', repairId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving cost estimate:', error);
+      return false;
+    }
+
+    return true;
+
+  } catch (error) {
+    console.error('Error in saveRepairCostEstimate:', error);
+    return false;
+  }
+}
+
+/**
+ * Record that the user acknowledged a high-risk repair's risks
+ * @param repairId - The ID of the repair
+ * @param acknowledgedAt - When the risks were acknowledged
+ * @returns true if successful, false otherwise
+ */
+export async function saveRepairSafetyAcknowledgement(repairId: string, acknowledgedAt: string): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('repairs')
+      .update({ safety_acknowledged_at: acknowledgedAt, updated_at: new Date().toISOString() })
+      .eq('id', repairId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving safety acknowledgement:', error);
+      return false;
+    }
+
+    return true;
+
+  } catch (error) {
+    console.error('Error in saveRepairSafetyAcknowledgement:', error);
+    return false;
+  }
+}
+
+/**
+ * Store a "verify fix" result and mark the repair resolved (pass) or reopen it (concern)
+ * @param repair - The repair that was verified
+ * @param result - Verdict from the AI check
+ * @param images - Before (optional) and after photos as data URLs, uploaded to storage
+ * @returns The updated repair or null if failed
+ */
+export async function recordRepairVerification(
+  repair: SavedRepair,
+  result: VerificationResult,
+  images: { before?: string | null; after: string }
+): Promise<SavedRepair | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to verify repairs');
+      return null;
+    }
+
+    // Copies are kept with the repair so they outlive the conversation's media
+    const [beforePath, afterPath] = await Promise.all([
+      images.before ? uploadMedia(images.before, 'verifications') : Promise.resolve(null),
+      uploadMedia(images.after, 'verifications')
+    ]);
+
+    const verification: RepairVerification = {
+      ...result,
+      before_image: beforePath,
+      after_image: afterPath,
+      verified_at: new Date().toISOString()
+    };
+    const status = statusForVerdict(result.verdict);
+
+    const { data, error } = await supabase
+      .from('repairs')
+      .update({
+        status,
+        resolved_at: status === 'resolved' ? verification.verified_at : null,
+        verifications: [...(repair.verifications || []), verification],
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', repair.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving repair verification:', error);
+      toast.error('Failed to save the verification');
+      await deleteMedia([beforePath, afterPath].filter((path): path is string => !!path));
+      return null;
+    }
+
+    if (status === 'resolved') {
+      toast.success('Fix verified - repair marked resolved!');
+    } else {
+      toast.warning('Repair reopened - see the suggestions for what to try next');
+    }
+
+    return data as SavedRepair;
+
+  } catch (error) {
+    console.error('Error in recordRepairVerification:', error);
+    toast.error('An error occurred while saving the verification');
+    return null;
+  }
+}
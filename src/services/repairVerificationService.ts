@@ -0,0 +1,86 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import { getDiagnosisSession } from "./diagnosisSessionService";
+import { fetchAsDataUrl, getMediaUrl } from "./mediaService";
+
+export type RepairStatus = 'open' | 'resolved';
+
+export type VerificationVerdict = 'pass' | 'concern';
+
+/**
+ * AI verdict on an after-photo, before it is stored
+ */
+export interface VerificationResult {
+  verdict: VerificationVerdict;
+  summary: string;
+  /** What to try next when the verdict is 'concern' */
+  suggestions: string[];
+}
+
+/**
+ * One "verify fix" attempt stored on a repair
+ * Images are storage paths (see mediaService), null when there was no photo or the upload failed
+ */
+export interface RepairVerification extends VerificationResult {
+  before_image: string | null;
+  after_image: string | null;
+  verified_at: string;
+}
+
+const VERDICTS: VerificationVerdict[] = ['pass', 'concern'];
+
+export const VERIFICATION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    verdict: { type: SchemaType.STRING, format: "enum", enum: VERDICTS },
+    summary: { type: SchemaType.STRING, description: "What the after-photo shows and why the fix looks complete or not" },
+    suggestions: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Next things to check or try if the verdict is concern; empty for pass"
+    }
+  },
+  required: ["verdict", "summary", "suggestions"]
+};
+
+/**
+ * Runtime validation for a verification returned by the model
+ */
+export function validateVerificationResult(value: unknown): VerificationResult | null {
+  if (!value || typeof value !== 'object') return null;
+  const { verdict, summary, suggestions } = value as Record<string, unknown>;
+
+  if (typeof verdict !== 'string' || !VERDICTS.includes(verdict as VerificationVerdict)) return null;
+  if (typeof summary !== 'string' || !summary.trim()) return null;
+  if (!Array.isArray(suggestions)) return null;
+
+  return {
+    verdict: verdict as VerificationVerdict,
+    summary: summary.trim(),
+    suggestions: suggestions
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(item => item.length > 0)
+  };
+}
+
+/**
+ * Status a verdict moves the repair to
+ */
+export const statusForVerdict = (verdict: VerificationVerdict): RepairStatus =>
+  verdict === 'pass' ? 'resolved' : 'open';
+
+/**
+ * First photo from the conversation that produced the repair, used as the "before" image
+ * @param sessionId - The repair's diagnosis session
+ * @returns The photo as a data URL, or null if the conversation had no photos
+ */
+export async function loadBeforePhoto(sessionId: string | null | undefined): Promise<string | null> {
+  if (!sessionId) return null;
+
+  const session = await getDiagnosisSession(sessionId);
+  const image = session?.messages.find(msg => msg.role === 'user' && msg.images && msg.images.length > 0)?.images?.[0];
+  if (!image) return null;
+
+  const url = image.startsWith('data:') ? image : await getMediaUrl(image);
+  return url ? fetchAsDataUrl(url) : null;
+}
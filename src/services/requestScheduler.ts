@@ -0,0 +1,326 @@
+/**
+ * Client-side scheduler for AI calls
+ * Every AI entry point waits here for a token (token bucket), and each started request
+ * is counted against a per-day budget persisted in localStorage so heavy users are
+ * warned before they hit the Gemini quota wall.
+ *
+ * Requests come in two priorities:
+ * - interactive: one per user action (a chat turn, a step-help question, a label scan).
+ *   These make up the daily budget users see, so "AI requests today" counts what they did.
+ * - follow-up: extra calls an action triggers (final guide, safety check, cost estimate,
+ *   conversation memory, photo descriptions). They wait behind any queued interactive
+ *   request and draw on their own daily allowance; once that runs out they are refused
+ *   and callers fall back to their local results.
+ */
+
+export interface SchedulerConfig {
+  /** Requests that may start back-to-back before throttling kicks in */
+  bucketCapacity: number;
+  /** Time to refill one token */
+  refillIntervalMs: number;
+  /** Interactive (user action) requests allowed per day before the budget is exhausted */
+  dailyBudget: number;
+  /** Follow-up requests allowed per day - past this they are refused */
+  followUpBudget: number;
+  /** Fraction of the daily budget at which users are warned */
+  warnAtRatio: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  bucketCapacity: 1,
+  refillIntervalMs: 3000, // 3 seconds between requests (helps with rate limiting)
+  dailyBudget: Number(import.meta.env.VITE_AI_DAILY_BUDGET) || 200,
+  followUpBudget: Number(import.meta.env.VITE_AI_FOLLOW_UP_BUDGET) || 500,
+  warnAtRatio: 0.8
+};
+
+/**
+ * interactive - started by a user action; follow-up - triggered by one (see the module comment)
+ */
+export type AiRequestPriority = 'interactive' | 'follow-up';
+
+export interface DailyBudgetStatus {
+  date: string;
+  /** Interactive requests started today */
+  used: number;
+  limit: number;
+  /** Follow-up requests started today, counted against their own allowance */
+  followUpsUsed: number;
+  followUpLimit: number;
+}
+
+export type SchedulerEvent =
+  | { type: 'queue-changed'; pending: Array<{ ticket: number; label: string }> }
+  | { type: 'budget-changed'; budget: DailyBudgetStatus }
+  | { type: 'budget-warning'; budget: DailyBudgetStatus }
+  | { type: 'budget-exhausted'; budget: DailyBudgetStatus }
+  | { type: 'follow-up-budget-exhausted'; limit: number };
+
+type SchedulerListener = (event: SchedulerEvent) => void;
+
+interface QueuedRequest {
+  ticket: number;
+  label: string;
+  priority: AiRequestPriority;
+  start: () => void;
+  onPosition?: (position: number) => void;
+}
+
+/**
+ * Today's usage as persisted in localStorage, with the notices already shown
+ * so each fires once per day even across reloads
+ */
+interface StoredBudget {
+  date: string;
+  used: number;
+  followUps: number;
+  warned: boolean;
+  exhausted: boolean;
+  followUpsExhausted: boolean;
+}
+
+const BUDGET_STORAGE_KEY = 'fixitHeroAiBudget';
+
+let config: SchedulerConfig = { ...DEFAULT_SCHEDULER_CONFIG };
+let tokens = config.bucketCapacity;
+let lastRefill = Date.now();
+let nextTicket = 1;
+let refillTimer: ReturnType<typeof setTimeout> | null = null;
+const queue: QueuedRequest[] = [];
+const listeners = new Set<SchedulerListener>();
+
+/**
+ * Override scheduler defaults
+ */
+export function configureScheduler(overrides: Partial<SchedulerConfig>): void {
+  config = { ...config, ...overrides };
+  tokens = Math.min(tokens, config.bucketCapacity);
+}
+
+/**
+ * Subscribe to queue and budget changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToScheduler(listener: SchedulerListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const emit = (event: SchedulerEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Scheduler listener failed:', error);
+    }
+  });
+};
+
+/**
+ * The user's local calendar date (YYYY-MM-DD), so the budget resets at their midnight rather than UTC's
+ */
+const todayKey = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const readStoredBudget = (): StoredBudget => {
+  const date = todayKey();
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || 'null');
+    if (stored && stored.date === date && typeof stored.used === 'number') {
+      return {
+        date,
+        used: stored.used,
+        followUps: typeof stored.followUps === 'number' ? stored.followUps : 0,
+        warned: stored.warned === true,
+        exhausted: stored.exhausted === true,
+        followUpsExhausted: stored.followUpsExhausted === true
+      };
+    }
+  } catch (error) {
+    console.warn('Could not read AI budget:', error);
+  }
+  return { date, used: 0, followUps: 0, warned: false, exhausted: false, followUpsExhausted: false };
+};
+
+const saveStoredBudget = (stored: StoredBudget) => {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn('Could not save AI budget:', error);
+  }
+};
+
+const toBudgetStatus = (stored: StoredBudget): DailyBudgetStatus => ({
+  date: stored.date,
+  used: stored.used,
+  limit: config.dailyBudget,
+  followUpsUsed: stored.followUps,
+  followUpLimit: config.followUpBudget
+});
+
+/**
+ * Get today's AI usage against the daily budget and the follow-up allowance
+ */
+export function getDailyBudgetStatus(): DailyBudgetStatus {
+  return toBudgetStatus(readStoredBudget());
+}
+
+const recordBudgetUse = (priority: AiRequestPriority) => {
+  const stored = readStoredBudget();
+
+  if (priority === 'follow-up') {
+    stored.followUps++;
+    saveStoredBudget(stored);
+    emit({ type: 'budget-changed', budget: toBudgetStatus(stored) });
+    return;
+  }
+
+  stored.used++;
+  const budget = toBudgetStatus(stored);
+  emit({ type: 'budget-changed', budget });
+
+  // Warn once when crossing the threshold, and once when the budget runs out
+  // (running out also counts as the warning, in case both thresholds are the same)
+  const warnAt = Math.ceil(budget.limit * config.warnAtRatio);
+  if (budget.used >= budget.limit && !stored.exhausted) {
+    stored.exhausted = true;
+    stored.warned = true;
+    emit({ type: 'budget-exhausted', budget });
+  } else if (budget.used >= warnAt && !stored.warned) {
+    stored.warned = true;
+    emit({ type: 'budget-warning', budget });
+  }
+
+  saveStoredBudget(stored);
+};
+
+/**
+ * Whether today's follow-up allowance still has room, noting once when it runs out
+ */
+const hasFollowUpAllowance = (): boolean => {
+  const stored = readStoredBudget();
+  if (stored.followUps < config.followUpBudget) return true;
+
+  if (!stored.followUpsExhausted) {
+    stored.followUpsExhausted = true;
+    saveStoredBudget(stored);
+    emit({ type: 'follow-up-budget-exhausted', limit: config.followUpBudget });
+  }
+  return false;
+};
+
+const notifyPositions = () => {
+  queue.forEach((request, idx) => request.onPosition?.(idx + 1));
+  emit({ type: 'queue-changed', pending: queue.map(({ ticket, label }) => ({ ticket, label })) });
+};
+
+const refillTokens = () => {
+  const now = Date.now();
+  const refilled = Math.floor((now - lastRefill) / config.refillIntervalMs);
+  if (refilled > 0) {
+    tokens = Math.min(config.bucketCapacity, tokens + refilled);
+    lastRefill += refilled * config.refillIntervalMs;
+  }
+  if (tokens >= config.bucketCapacity) {
+    lastRefill = now;
+  }
+};
+
+const processQueue = () => {
+  refillTokens();
+
+  let started = false;
+  while (queue.length > 0 && tokens >= 1) {
+    tokens--;
+    const request = queue.shift()!;
+    request.onPosition?.(0);
+    recordBudgetUse(request.priority);
+    request.start();
+    started = true;
+  }
+
+  if (started) notifyPositions();
+
+  if (queue.length > 0 && !refillTimer) {
+    const waitMs = Math.max(0, lastRefill + config.refillIntervalMs - Date.now());
+    refillTimer = setTimeout(() => {
+      refillTimer = null;
+      processQueue();
+    }, waitMs);
+  }
+};
+
+/**
+ * Wait for this request's turn
+ * @param label - What the request is for (shown in queue state)
+ * @param onPosition - Called with the queue position (1 = next); 0 once the request may start
+ * @param signal - Aborting leaves the queue without using a slot (rejects with an AbortError)
+ * @param priority - Interactive requests are served before queued follow-ups
+ * @throws Error for a follow-up request once today's follow-up allowance is used up
+ */
+export function acquireAiSlot(
+  label: string,
+  onPosition?: (position: number) => void,
+  signal?: AbortSignal,
+  priority: AiRequestPriority = 'interactive'
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request cancelled', 'AbortError'));
+      return;
+    }
+    if (priority === 'follow-up' && !hasFollowUpAllowance()) {
+      reject(new Error(`Daily follow-up AI allowance used up - skipping ${label}`));
+      return;
+    }
+
+    const ticket = nextTicket++;
+    const leaveQueue = () => {
+      const idx = queue.findIndex(request => request.ticket === ticket);
+      if (idx === -1) return;
+      queue.splice(idx, 1);
+      notifyPositions();
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', leaveQueue, { once: true });
+
+    const request: QueuedRequest = {
+      ticket,
+      label,
+      priority,
+      start: () => {
+        signal?.removeEventListener('abort', leaveQueue);
+        resolve();
+      },
+      onPosition
+    };
+
+    // Interactive requests go ahead of queued follow-ups, in FIFO order among themselves
+    const firstFollowUp = queue.findIndex(queued => queued.priority === 'follow-up');
+    if (priority === 'interactive' && firstFollowUp !== -1) {
+      queue.splice(firstFollowUp, 0, request);
+    } else {
+      queue.push(request);
+    }
+    notifyPositions();
+    processQueue();
+  });
+}
+
+/**
+ * Run an AI request once the scheduler allows it
+ * @param options - Abort signal, and priority (defaults to interactive)
+ */
+export async function scheduleAiRequest<T>(
+  label: string,
+  request: () => Promise<T>,
+  options: { signal?: AbortSignal; priority?: AiRequestPriority } = {}
+): Promise<T> {
+  await acquireAiSlot(label, undefined, options.signal, options.priority);
+  return request();
+}
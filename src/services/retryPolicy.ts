@@ -0,0 +1,250 @@
+/**
+ * Shared retry policy for AI calls
+ * One place for transient-error detection, exponential backoff, model fallback,
+ * and a per-model circuit breaker. Progress is reported as typed events so the
+ * UI can drive notifications from a single subscriber.
+ */
+
+export interface RetryPolicyConfig {
+  /** Retries per model before moving to the next one */
+  maxRetries: number;
+  /** First backoff delay, doubled on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Random jitter added to each delay */
+  jitterMs: number;
+  /** Consecutive transient failures (429/503) before a model's circuit opens */
+  failureThreshold: number;
+  /** How long an open circuit skips the model */
+  coolDownMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 20000,
+  jitterMs: 1000,
+  failureThreshold: 3,
+  coolDownMs: 60000
+};
+
+let policy: RetryPolicyConfig = { ...DEFAULT_RETRY_POLICY };
+
+/**
+ * Override the default policy for every AI call
+ */
+export function configureRetryPolicy(overrides: Partial<RetryPolicyConfig>): void {
+  policy = { ...policy, ...overrides };
+}
+
+export type AiStatusEvent =
+  | { type: 'retrying'; operationId: number; model: string; attempt: number; delayMs: number }
+  | { type: 'model-fallback'; operationId: number; from: string; to: string }
+  | { type: 'circuit-open'; model: string; until: number }
+  | { type: 'circuit-closed'; model: string }
+  | { type: 'recovered'; operationId: number; model: string }
+  | { type: 'failed'; operationId: number; reason: 'capacity' | 'error'; message: string }
+  | { type: 'cancelled'; operationId: number };
+
+type AiStatusListener = (event: AiStatusEvent) => void;
+
+const listeners = new Set<AiStatusListener>();
+
+/**
+ * Subscribe to retry/fallback/circuit events
+ * @returns Unsubscribe function
+ */
+export function subscribeToAiStatus(listener: AiStatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const emit = (event: AiStatusEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('AI status listener failed:', error);
+    }
+  });
+};
+
+interface ModelHealth {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+const modelHealth = new Map<string, ModelHealth>();
+
+const getHealth = (model: string): ModelHealth => {
+  let health = modelHealth.get(model);
+  if (!health) {
+    health = { consecutiveFailures: 0, openUntil: 0 };
+    modelHealth.set(model, health);
+  }
+  return health;
+};
+
+/**
+ * Whether a model is currently being skipped by the circuit breaker
+ */
+export function isCircuitOpen(model: string): boolean {
+  return getHealth(model).openUntil > Date.now();
+}
+
+const recordSuccess = (model: string) => {
+  const health = getHealth(model);
+  const wasOpen = health.openUntil > 0;
+  health.consecutiveFailures = 0;
+  health.openUntil = 0;
+  if (wasOpen) emit({ type: 'circuit-closed', model });
+};
+
+const recordTransientFailure = (model: string) => {
+  const health = getHealth(model);
+  health.consecutiveFailures++;
+  if (health.consecutiveFailures >= policy.failureThreshold && !isCircuitOpen(model)) {
+    health.openUntil = Date.now() + policy.coolDownMs;
+    console.warn(`Circuit open for ${model} until ${new Date(health.openUntil).toLocaleTimeString()}`);
+    emit({ type: 'circuit-open', model, until: health.openUntil });
+  }
+};
+
+const TRANSIENT_STATUSES = [429, 503];
+
+const TRANSIENT_MESSAGES = [
+  'quota',
+  'rate limit',
+  'per minute',
+  'too many requests',
+  'resource exhausted',
+  'resource_exhausted',
+  'exceeded',
+  'overloaded',
+  'unavailable'
+];
+
+/**
+ * Identify transient "Wall" errors (Quota, Rate Limit, or Server Overload)
+ */
+export function isTransientError(error: unknown): boolean {
+  const { status, message } = (error || {}) as { status?: number; message?: string };
+  if (status && TRANSIENT_STATUSES.includes(status)) return true;
+
+  const errorMsg = (message || '').toLowerCase();
+  return TRANSIENT_MESSAGES.some(fragment => errorMsg.includes(fragment));
+}
+
+/**
+ * Whether a request was cancelled on purpose (user pressed Stop) rather than failing
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+const cancelled = () => new DOMException('Request cancelled', 'AbortError');
+
+/**
+ * Utility for pausing execution during retries
+ * Rejects with an AbortError as soon as the signal aborts, so Stop doesn't sit out a backoff
+ */
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+let nextOperationId = 1;
+
+/**
+ * Run an AI call with backoff, model fallback and circuit breaking
+ * Models are tried in order; a model with an open circuit is skipped unless it is the last option.
+ * Only transient errors are retried - anything else fails immediately.
+ * @param models - Model names in preference order
+ * @param attempt - Performs one request against the given model
+ * @param signal - Aborting stops before the next attempt or during a backoff (rejects with an AbortError)
+ * @returns The first successful result
+ */
+export async function runWithRetry<T>(models: string[], attempt: (model: string) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const operationId = nextOperationId++;
+  const config = policy;
+  let hadTrouble = false;
+  let previousModel: string | null = null;
+
+  for (let i = 0; i < models.length; i++) {
+    const modelName = models[i];
+    const isLastModel = i === models.length - 1;
+
+    if (isCircuitOpen(modelName) && !isLastModel) {
+      console.log(`Skipping ${modelName} - circuit open`);
+      continue;
+    }
+
+    if (previousModel) {
+      emit({ type: 'model-fallback', operationId, from: previousModel, to: modelName });
+    }
+    previousModel = modelName;
+
+    for (let retryCount = 0; retryCount <= config.maxRetries; retryCount++) {
+      if (signal?.aborted) {
+        emit({ type: 'cancelled', operationId });
+        throw cancelled();
+      }
+
+      try {
+        const result = await attempt(modelName);
+        recordSuccess(modelName);
+        if (hadTrouble) emit({ type: 'recovered', operationId, model: modelName });
+        return result;
+      } catch (error) {
+        // Cancelled requests are neither retried nor reported as failures
+        if (isAbortError(error)) {
+          emit({ type: 'cancelled', operationId });
+          throw error;
+        }
+
+        if (!isTransientError(error)) {
+          const message = (error as Error)?.message || 'An error occurred';
+          emit({ type: 'failed', operationId, reason: 'error', message });
+          throw error;
+        }
+
+        hadTrouble = true;
+        recordTransientFailure(modelName);
+
+        // Stop hammering a model once its circuit opens
+        if (retryCount === config.maxRetries || (isCircuitOpen(modelName) && !isLastModel)) {
+          break;
+        }
+
+        // Exponential backoff calculation
+        const delayMs = Math.min(Math.pow(2, retryCount) * config.baseDelayMs, config.maxDelayMs) + Math.random() * config.jitterMs;
+        emit({ type: 'retrying', operationId, model: modelName, attempt: retryCount + 1, delayMs });
+        try {
+          await wait(delayMs, signal);
+        } catch (error) {
+          emit({ type: 'cancelled', operationId });
+          throw error;
+        }
+      }
+    }
+  }
+
+  const message = "Rate limit exceeded. Please wait 1-2 minutes before trying again.";
+  emit({ type: 'failed', operationId, reason: 'capacity', message });
+  throw new Error(message);
+}
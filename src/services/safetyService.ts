@@ -0,0 +1,308 @@
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type { DiagnosisResult } from "./diagnosisService";
+
+export type HazardCategory =
+  | 'gas'
+  | 'main-electrical'
+  | 'electrical'
+  | 'asbestos'
+  | 'lead-paint'
+  | 'structural'
+  | 'roof-height'
+  | 'mold'
+  | 'chemical'
+  | 'water';
+
+export type HazardSeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * Safety classification attached to a diagnosis
+ */
+export interface SafetyAssessment {
+  hazards: HazardCategory[];
+  severity: HazardSeverity;
+  /** Personal protective equipment to wear */
+  ppe: string[];
+  /** Shut-off / make-safe steps that must happen before the repair steps */
+  shutoff_steps: string[];
+  /** True when the work should be handed to a licensed professional */
+  call_a_pro: boolean;
+  reason: string;
+}
+
+export const HAZARD_CATEGORIES: HazardCategory[] = [
+  'gas', 'main-electrical', 'electrical', 'asbestos', 'lead-paint',
+  'structural', 'roof-height', 'mold', 'chemical', 'water'
+];
+
+const SEVERITIES: HazardSeverity[] = ['low', 'moderate', 'high', 'critical'];
+
+export const HAZARD_LABELS: Record<HazardCategory, string> = {
+  'gas': 'Gas line',
+  'main-electrical': 'Main electrical panel',
+  'electrical': 'Electrical',
+  'asbestos': 'Possible asbestos',
+  'lead-paint': 'Possible lead paint',
+  'structural': 'Structural',
+  'roof-height': 'Roof / working at height',
+  'mold': 'Mold',
+  'chemical': 'Chemicals',
+  'water': 'Water / plumbing'
+};
+
+/**
+ * Categories that always hide the repair steps until the user acknowledges the risk
+ */
+export const HIGH_RISK_HAZARDS: HazardCategory[] = ['gas', 'main-electrical', 'asbestos', 'structural'];
+
+/**
+ * Response schema for the safety classification stage
+ */
+export const SAFETY_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    hazards: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING, format: "enum", enum: HAZARD_CATEGORIES },
+      description: "Every hazard category that applies to this repair"
+    },
+    severity: { type: SchemaType.STRING, format: "enum", enum: SEVERITIES },
+    ppe: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Protective equipment to wear, e.g. safety glasses, gloves, N95 respirator"
+    },
+    shutoff_steps: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Steps to make the area safe before starting (shut off water, breaker, gas, etc.)"
+    },
+    call_a_pro: { type: SchemaType.BOOLEAN, description: "Whether a licensed professional should do this work" },
+    reason: { type: SchemaType.STRING, description: "One sentence explaining the main risk" }
+  },
+  required: ["hazards", "severity", "ppe", "shutoff_steps", "call_a_pro", "reason"]
+};
+
+/**
+ * Runtime validation for a safety classification returned by the model
+ * Unknown hazard categories are dropped rather than failing the whole response
+ */
+export function validateSafetyAssessment(value: unknown): SafetyAssessment | null {
+  if (!value || typeof value !== 'object') return null;
+  const safety = value as Record<string, unknown>;
+
+  if (!Array.isArray(safety.hazards)) return null;
+  if (typeof safety.severity !== 'string' || !SEVERITIES.includes(safety.severity as HazardSeverity)) return null;
+  if (!Array.isArray(safety.ppe) || !Array.isArray(safety.shutoff_steps)) return null;
+  if (typeof safety.call_a_pro !== 'boolean') return null;
+
+  const strings = (items: unknown[]) =>
+    items.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim());
+
+  return {
+    hazards: strings(safety.hazards).filter((h): h is HazardCategory => HAZARD_CATEGORIES.includes(h as HazardCategory)),
+    severity: safety.severity as HazardSeverity,
+    ppe: strings(safety.ppe),
+    shutoff_steps: strings(safety.shutoff_steps),
+    call_a_pro: safety.call_a_pro,
+    reason: typeof safety.reason === 'string' ? safety.reason.trim() : ''
+  };
+}
+
+interface HazardRule {
+  hazard: HazardCategory;
+  pattern: RegExp;
+  severity: HazardSeverity;
+  ppe: string[];
+  shutoff?: string;
+  callAPro?: boolean;
+}
+
+/**
+ * Keyword rules that run on every diagnosis
+ * They are a floor under the model's classification: the model can add hazards, never remove these
+ */
+const HAZARD_RULES: HazardRule[] = [
+  {
+    hazard: 'gas',
+    pattern: /\b(gas (line|valve|leak|pipe|supply|smell)|natural gas|propane|pilot light|gas (furnace|water heater|stove|range|dryer))\b/i,
+    severity: 'critical',
+    ppe: [],
+    shutoff: 'If you smell gas, leave the house and call your gas utility from outside. Otherwise turn the appliance gas shut-off valve to OFF (handle perpendicular to the pipe).',
+    callAPro: true
+  },
+  {
+    hazard: 'main-electrical',
+    pattern: /\b(main (electrical )?panel|breaker (panel|box)|service panel|main breaker|electrical panel|meter base|service entrance)\b/i,
+    severity: 'critical',
+    ppe: ['Insulated gloves', 'Safety glasses'],
+    shutoff: 'Do not open the panel cover - the service conductors stay live even with the main breaker off.',
+    callAPro: true
+  },
+  {
+    hazard: 'electrical',
+    pattern: /\b(outlet|receptacle|switch|wiring|wire nut|light fixture|gfci|circuit|breaker|junction box|ceiling fan)\b/i,
+    severity: 'moderate',
+    ppe: ['Safety glasses'],
+    shutoff: 'Switch off the circuit breaker for this circuit and confirm it is dead with a non-contact voltage tester.'
+  },
+  {
+    hazard: 'asbestos',
+    pattern: /\b(asbestos|popcorn ceiling|vermiculite|9x9 (floor )?tiles?|pipe (wrap|lagging))\b/i,
+    severity: 'high',
+    ppe: ['N95 or P100 respirator', 'Disposable coveralls'],
+    shutoff: 'Do not sand, cut or scrape suspect material until it has been tested for asbestos.',
+    callAPro: true
+  },
+  {
+    hazard: 'structural',
+    pattern: /\b(load[- ]bearing|foundation crack|joist|beam|sagging (floor|ceiling|roof)|structural)\b/i,
+    severity: 'high',
+    ppe: ['Hard hat', 'Safety glasses'],
+    callAPro: true
+  },
+  {
+    hazard: 'roof-height',
+    pattern: /\b(roof|gutter|chimney|skylight|extension ladder|second[- ]story)\b/i,
+    severity: 'moderate',
+    ppe: ['Non-slip shoes', 'Fall-arrest harness for steep roofs'],
+    shutoff: 'Set the ladder on firm, level ground and have someone hold it.'
+  },
+  {
+    hazard: 'mold',
+    pattern: /\b(mold|mould|mildew)\b/i,
+    severity: 'moderate',
+    ppe: ['N95 respirator', 'Gloves', 'Safety glasses']
+  },
+  {
+    hazard: 'chemical',
+    pattern: /\b(drain cleaner|bleach|solvent|muriatic|acid|ammonia|lye)\b/i,
+    severity: 'moderate',
+    ppe: ['Chemical-resistant gloves', 'Safety glasses'],
+    shutoff: 'Ventilate the area and never mix cleaning chemicals.'
+  },
+  {
+    hazard: 'water',
+    pattern: /\b(pipe|faucet|toilet|valve|water heater|supply line|leak|drain|plumbing)\b/i,
+    severity: 'low',
+    ppe: ['Gloves'],
+    shutoff: 'Turn off the water supply valve for this fixture (or the main shut-off) and open a faucet to relieve pressure.'
+  }
+];
+
+/**
+ * Materials that only become a hazard in older homes
+ */
+const DISTURBS_FINISHES = /\b(drywall|plaster|ceiling|flooring|floor tile|insulation|sand(ing)?|scrap(e|ing)|paint|demolish|cut (into|out))\b/i;
+
+const severityRank = (severity: HazardSeverity) => SEVERITIES.indexOf(severity);
+
+const maxSeverity = (a: HazardSeverity, b: HazardSeverity) => (severityRank(a) >= severityRank(b) ? a : b);
+
+const unique = (items: string[]) => Array.from(new Set(items));
+
+/**
+ * Rule-based safety classification
+ * @param diagnosis - The repair guide to classify
+ * @param yearBuilt - Approximate build year, used to flag lead paint / asbestos in older homes
+ */
+export function classifyHazards(diagnosis: DiagnosisResult, yearBuilt?: number | null): SafetyAssessment {
+  const text = [
+    diagnosis.title,
+    diagnosis.summary,
+    ...diagnosis.parts_needed,
+    ...diagnosis.tools_needed,
+    ...diagnosis.steps
+  ].join('\n');
+
+  const assessment: SafetyAssessment = {
+    hazards: [],
+    severity: 'low',
+    ppe: [],
+    shutoff_steps: [],
+    call_a_pro: false,
+    reason: ''
+  };
+
+  const apply = (rule: HazardRule) => {
+    assessment.hazards.push(rule.hazard);
+    assessment.severity = maxSeverity(assessment.severity, rule.severity);
+    assessment.ppe.push(...rule.ppe);
+    if (rule.shutoff) assessment.shutoff_steps.push(rule.shutoff);
+    if (rule.callAPro) assessment.call_a_pro = true;
+  };
+
+  for (const rule of HAZARD_RULES) {
+    if (rule.pattern.test(text)) apply(rule);
+  }
+
+  // Older homes: disturbing finishes may release lead or asbestos
+  if (yearBuilt != null && DISTURBS_FINISHES.test(text)) {
+    if (yearBuilt < 1978 && !assessment.hazards.includes('lead-paint')) {
+      apply({
+        hazard: 'lead-paint',
+        pattern: DISTURBS_FINISHES,
+        severity: 'high',
+        ppe: ['P100 respirator', 'Disposable gloves'],
+        shutoff: 'Homes built before 1978 may have lead paint - test painted surfaces before sanding or scraping.'
+      });
+    }
+    if (yearBuilt < 1981 && !assessment.hazards.includes('asbestos')) {
+      apply(HAZARD_RULES.find(rule => rule.hazard === 'asbestos')!);
+    }
+  }
+
+  // Panel work implies general electrical hazards too - keep the more specific tag only
+  if (assessment.hazards.includes('main-electrical')) {
+    assessment.hazards = assessment.hazards.filter(h => h !== 'electrical');
+  }
+
+  assessment.hazards = unique(assessment.hazards) as HazardCategory[];
+  assessment.ppe = unique(assessment.ppe);
+  assessment.shutoff_steps = unique(assessment.shutoff_steps);
+  assessment.reason = assessment.hazards.length > 0
+    ? `Involves: ${assessment.hazards.map(h => HAZARD_LABELS[h]).join(', ')}`
+    : 'No special hazards detected';
+
+  return assessment;
+}
+
+/**
+ * Combine the model's classification with the rule-based floor
+ * Hazards and PPE are unioned, the higher severity wins, and "call a pro" is sticky
+ */
+export function mergeSafetyAssessments(model: SafetyAssessment | null, rules: SafetyAssessment): SafetyAssessment {
+  if (!model) return rules;
+
+  return {
+    hazards: unique([...rules.hazards, ...model.hazards]) as HazardCategory[],
+    severity: maxSeverity(model.severity, rules.severity),
+    ppe: unique([...model.ppe, ...rules.ppe]),
+    shutoff_steps: unique([...rules.shutoff_steps, ...model.shutoff_steps]),
+    call_a_pro: model.call_a_pro || rules.call_a_pro,
+    reason: model.reason || rules.reason
+  };
+}
+
+/**
+ * Whether the repair steps must stay hidden until the user acknowledges the risk
+ * Takes only severity and hazards so saved repairs (which store just those) can be checked too.
+ */
+export function requiresAcknowledgement(safety: Pick<SafetyAssessment, 'severity' | 'hazards'> | null | undefined): boolean {
+  if (!safety) return false;
+  return safety.severity === 'critical'
+    || safety.severity === 'high'
+    || safety.hazards.some(h => HIGH_RISK_HAZARDS.includes(h));
+}
+
+/**
+ * Whether a guide's steps are hidden right now - in the guide card, the chat reply,
+ * guided mode and saved repairs alike
+ * @param acknowledgedAt - When the user acknowledged the risks, stored on the diagnosis or repair
+ */
+export function stepsLocked(
+  safety: Pick<SafetyAssessment, 'severity' | 'hazards'> | null | undefined,
+  acknowledgedAt: string | null | undefined
+): boolean {
+  return requiresAcknowledgement(safety) && !acknowledgedAt;
+}
@@ -0,0 +1,122 @@
+import type { DiagnosisDifficulty, DiagnosisResult } from './diagnosisService';
+import { HAZARD_LABELS, type HazardCategory } from './safetyService';
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'experienced';
+
+/**
+ * Kinds of work a user has said they won't do themselves
+ */
+export type ComfortLimit = 'electrical' | 'gas' | 'plumbing' | 'heights' | 'structural';
+
+/**
+ * Skill and comfort settings stored on the user's profile
+ */
+export interface SkillProfile {
+  /** null when the user hasn't set one - prompts then keep their default beginner-to-intermediate tone */
+  skillLevel: SkillLevel | null;
+  comfortLimits: ComfortLimit[];
+}
+
+export const SKILL_LEVELS: SkillLevel[] = ['beginner', 'intermediate', 'experienced'];
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  experienced: 'Experienced'
+};
+
+export const SKILL_LEVEL_DESCRIPTIONS: Record<SkillLevel, string> = {
+  beginner: 'New to repairs - walk me through every step',
+  intermediate: 'Comfortable with common fixes and basic tools',
+  experienced: 'Done plenty of repairs - keep guides short'
+};
+
+export const COMFORT_LIMITS: ComfortLimit[] = ['electrical', 'gas', 'plumbing', 'heights', 'structural'];
+
+export const COMFORT_LIMIT_LABELS: Record<ComfortLimit, string> = {
+  electrical: "Won't touch electrical",
+  gas: "Won't touch gas",
+  plumbing: "Won't open up plumbing",
+  heights: "Won't work on ladders or roofs",
+  structural: "Won't do structural work"
+};
+
+/**
+ * Hazard categories (from the safety stage) that fall under each comfort limit
+ */
+const COMFORT_LIMIT_HAZARDS: Record<ComfortLimit, HazardCategory[]> = {
+  electrical: ['electrical', 'main-electrical'],
+  gas: ['gas'],
+  plumbing: ['water'],
+  heights: ['roof-height'],
+  structural: ['structural']
+};
+
+/**
+ * Hardest guide each skill level is comfortable taking on
+ */
+const MAX_DIFFICULTY: Record<SkillLevel, DiagnosisDifficulty> = {
+  beginner: 'Easy',
+  intermediate: 'Medium',
+  experienced: 'Hard'
+};
+
+const DIFFICULTY_RANK: Record<DiagnosisDifficulty, number> = { Easy: 0, Medium: 1, Hard: 2 };
+
+/**
+ * Skill level from a profile row, null for missing or unknown values
+ */
+export function toSkillLevel(value: unknown): SkillLevel | null {
+  return SKILL_LEVELS.includes(value as SkillLevel) ? (value as SkillLevel) : null;
+}
+
+/**
+ * Comfort limits from a profile row, unknown values dropped
+ */
+export function toComfortLimits(value: unknown): ComfortLimit[] {
+  return Array.isArray(value) ? value.filter((limit): limit is ComfortLimit => COMFORT_LIMITS.includes(limit)) : [];
+}
+
+/**
+ * Compact skill block for the chat system prompt
+ * @returns undefined when nothing is set, so the prompt keeps its default audience
+ */
+export function formatSkillProfile(profile: SkillProfile | null): string | undefined {
+  if (!profile || (!profile.skillLevel && profile.comfortLimits.length === 0)) return undefined;
+
+  const lines: string[] = [];
+  if (profile.skillLevel) {
+    lines.push(`Skill level: ${SKILL_LEVEL_LABELS[profile.skillLevel]} (comfortable up to ${MAX_DIFFICULTY[profile.skillLevel]} repairs)`);
+  }
+  if (profile.comfortLimits.length > 0) {
+    lines.push(`Comfort limits: ${profile.comfortLimits.map(limit => COMFORT_LIMIT_LABELS[limit]).join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Why a guide is beyond what the user has said they're comfortable with
+ * @returns Reasons to suggest hiring a pro, empty when the guide is within their comfort
+ */
+export function hireAProReasons(
+  diagnosis: Pick<DiagnosisResult, 'difficulty' | 'safety'>,
+  profile: SkillProfile | null
+): string[] {
+  if (!profile) return [];
+  const reasons: string[] = [];
+
+  const maxDifficulty = profile.skillLevel ? MAX_DIFFICULTY[profile.skillLevel] : null;
+  if (maxDifficulty && diagnosis.difficulty && DIFFICULTY_RANK[diagnosis.difficulty] > DIFFICULTY_RANK[maxDifficulty]) {
+    reasons.push(`Rated ${diagnosis.difficulty}, above the ${maxDifficulty} repairs you're comfortable with`);
+  }
+
+  const hazards = diagnosis.safety?.hazards || [];
+  for (const limit of profile.comfortLimits) {
+    const matched = COMFORT_LIMIT_HAZARDS[limit].filter(hazard => hazards.includes(hazard));
+    if (matched.length > 0) {
+      reasons.push(`Involves ${matched.map(hazard => HAZARD_LABELS[hazard]).join(', ')} (you chose "${COMFORT_LIMIT_LABELS[limit]}")`);
+    }
+  }
+
+  return reasons;
+}
@@ -0,0 +1,249 @@
+import { supabase } from './supabaseClient';
+import { toast } from 'sonner';
+import { deleteMedia, uploadMedia } from './mediaService';
+import { APPLIANCE_TYPE_LABELS, type Appliance } from './applianceService';
+
+export type WarrantyKind = 'manufacturer' | 'extended' | 'service-contract' | 'home-warranty';
+
+export const WARRANTY_KIND_LABELS: Record<WarrantyKind, string> = {
+  'manufacturer': 'Manufacturer warranty',
+  'extended': 'Extended warranty',
+  'service-contract': 'Service contract',
+  'home-warranty': 'Home warranty'
+};
+
+/**
+ * Days before expiry a warranty is flagged as expiring
+ */
+export const WARRANTY_REMINDER_DAYS = 60;
+
+/**
+ * A warranty or service contract covering an appliance, or one of its parts
+ */
+export interface Warranty {
+  id: string;
+  user_id: string;
+  appliance_id: string | null;
+  /** Set when only a part is covered, e.g. a compressor or heat exchanger */
+  part_id: string | null;
+  kind: WarrantyKind;
+  provider: string;
+  /** What is covered, e.g. "Tank 10 yr, parts 6 yr, labor 1 yr" */
+  coverage: string | null;
+  /** YYYY-MM-DD */
+  start_date: string | null;
+  term_months: number | null;
+  /** YYYY-MM-DD */
+  expires_on: string;
+  /** Receipt or registration photo, a repair-media storage path */
+  proof_image: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WarrantyInput = Pick<Warranty, 'kind' | 'provider' | 'expires_on'> &
+  Partial<Pick<Warranty, 'appliance_id' | 'part_id' | 'coverage' | 'start_date' | 'term_months'>>;
+
+export type WarrantyStatus = 'active' | 'expiring' | 'expired';
+
+/**
+ * A warranty that may cover the item in a diagnosis
+ */
+export interface WarrantyMatch {
+  warranty: Warranty;
+  appliance: Appliance;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiry date from a start date and a term in months
+ * @returns YYYY-MM-DD, or '' when either is missing
+ */
+export function expiryFromTerm(startDate: string, termMonths: number): string {
+  if (!startDate || !termMonths) return '';
+  const expires = new Date(`${startDate}T00:00:00`);
+  if (isNaN(expires.getTime())) return '';
+  expires.setMonth(expires.getMonth() + termMonths);
+  return [
+    expires.getFullYear(),
+    String(expires.getMonth() + 1).padStart(2, '0'),
+    String(expires.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+/**
+ * Expiry as a timestamp at the end of the expiry day
+ */
+export function warrantyExpiresAt(warranty: Pick<Warranty, 'expires_on'>): number {
+  return new Date(`${warranty.expires_on}T23:59:59`).getTime();
+}
+
+export function warrantyStatus(warranty: Pick<Warranty, 'expires_on'>): WarrantyStatus {
+  const daysLeft = (warrantyExpiresAt(warranty) - Date.now()) / DAY_MS;
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= WARRANTY_REMINDER_DAYS) return 'expiring';
+  return 'active';
+}
+
+/**
+ * Get all warranties for the current user
+ * @returns Warranties sorted by expiry, soonest first
+ */
+export async function getWarranties(): Promise<Warranty[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('warranties')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('expires_on');
+
+    if (error) {
+      console.error('Error fetching warranties:', error);
+      return [];
+    }
+
+    return (data || []) as Warranty[];
+  } catch (error) {
+    console.error('Error in getWarranties:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a warranty or service contract
+ * @param input - Provider, term and what it covers
+ * @param proofImage - Receipt or registration photo as a data URL
+ * @returns The saved warranty or null if failed
+ */
+export async function addWarranty(input: WarrantyInput, proofImage?: string | null): Promise<Warranty | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to save warranties');
+      return null;
+    }
+
+    const proofPath = proofImage ? await uploadMedia(proofImage, 'warranties') : null;
+    if (proofImage && !proofPath) {
+      toast.error('Proof of purchase photo could not be uploaded');
+    }
+
+    const { data, error } = await supabase
+      .from('warranties')
+      .insert({
+        user_id: user.id,
+        appliance_id: input.appliance_id || null,
+        part_id: input.part_id || null,
+        kind: input.kind,
+        provider: input.provider.trim(),
+        coverage: input.coverage?.trim() || null,
+        start_date: input.start_date || null,
+        term_months: input.term_months || null,
+        expires_on: input.expires_on,
+        proof_image: proofPath,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding warranty:', error);
+      toast.error('Failed to save warranty');
+      return null;
+    }
+
+    toast.success('Warranty saved');
+    return data as Warranty;
+  } catch (error) {
+    console.error('Error in addWarranty:', error);
+    toast.error('An error occurred while saving');
+    return null;
+  }
+}
+
+/**
+ * Delete a warranty and its proof of purchase photo
+ * @returns true if successful, false otherwise
+ */
+export async function deleteWarranty(warranty: Warranty): Promise<boolean> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast.error('Please sign in to delete warranties');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('warranties')
+      .delete()
+      .eq('id', warranty.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting warranty:', error);
+      toast.error('Failed to delete warranty');
+      return false;
+    }
+
+    if (warranty.proof_image) await deleteMedia([warranty.proof_image]);
+    toast.success('Warranty deleted');
+    return true;
+  } catch (error) {
+    console.error('Error in deleteWarranty:', error);
+    toast.error('An error occurred while deleting');
+    return false;
+  }
+}
+
+/**
+ * Warranties expiring within the reminder window or expired in the last 30 days,
+ * for the reminders shown next to maintenance due dates
+ */
+export function getWarrantyReminders(warranties: Warranty[]): Warranty[] {
+  const cutoff = Date.now() - 30 * DAY_MS;
+  return warranties
+    .filter(warranty => warrantyStatus(warranty) !== 'active' && warrantyExpiresAt(warranty) >= cutoff)
+    .sort((a, b) => a.expires_on.localeCompare(b.expires_on));
+}
+
+/**
+ * Whether diagnosis text mentions this appliance by name, type, brand or model
+ */
+function mentionsAppliance(text: string, appliance: Appliance): boolean {
+  const terms = [
+    appliance.name,
+    appliance.type !== 'other' ? APPLIANCE_TYPE_LABELS[appliance.type] : '',
+    appliance.model || ''
+  ];
+  return terms.some(term => term.trim().length > 2 && text.includes(term.trim().toLowerCase()));
+}
+
+/**
+ * Unexpired warranties on appliances the diagnosis appears to be about
+ * @param diagnosisText - Diagnosis title, summary and parts
+ */
+export function findPossibleCoverage(diagnosisText: string, appliances: Appliance[], warranties: Warranty[]): WarrantyMatch[] {
+  const text = diagnosisText.toLowerCase();
+  const matching = new Map(appliances.filter(appliance => mentionsAppliance(text, appliance)).map(a => [a.id, a]));
+
+  return warranties
+    .filter(warranty => warranty.appliance_id && matching.has(warranty.appliance_id) && warrantyStatus(warranty) !== 'expired')
+    .map(warranty => ({ warranty, appliance: matching.get(warranty.appliance_id!)! }));
+}
+
+export function formatExpiry(warranty: Pick<Warranty, 'expires_on'>): string {
+  const days = Math.floor((warrantyExpiresAt(warranty) - Date.now()) / DAY_MS);
+  const date = new Date(`${warranty.expires_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  if (days < 0) return `Expired ${date}`;
+  if (days === 0) return 'Expires today';
+  if (days < WARRANTY_REMINDER_DAYS) return `Expires in ${days} day${days === 1 ? '' : 's'} (${date})`;
+  return `Covered until ${date}`;
+}